@@ -0,0 +1,74 @@
+import { Characteristic, Service, WithUUID } from 'homebridge';
+import { SleepMePlatform } from './platform.js';
+import { DeviceStateStore } from './device-state-store.js';
+import { noResponse, writeFailureStatus } from './hap-status.js';
+
+/**
+ * "No Response" and failed write handling shared by the services of one device
+ */
+export class AccessoryGuard {
+  private apiAvailable: boolean; // False while the API circuit is open
+
+  constructor(
+    private readonly platform: SleepMePlatform,
+    private readonly displayName: string,
+    private readonly deviceId: string,
+    private readonly stateStore: DeviceStateStore,
+  ) {
+    this.apiAvailable = this.stateStore.isAvailable();
+  }
+
+  /**
+   * Whether the SleepMe API is currently reachable
+   */
+  isApiAvailable(): boolean {
+    return this.apiAvailable;
+  }
+
+  /**
+   * Throw "No Response" to HomeKit while the API is unreachable or the last
+   * known state is too old to pass off as current
+   */
+  assertResponsive(): void {
+    if (!this.apiAvailable || this.stateStore.isStale(this.deviceId)) {
+      throw noResponse(this.platform.api);
+    }
+  }
+
+  /**
+   * Mark a characteristic faulted during an API outage and show its value again
+   * once the API is back; the store refreshes on recovery
+   */
+  setApiAvailable(
+    available: boolean,
+    service: Service,
+    characteristic: WithUUID<new () => Characteristic>,
+    value: number,
+  ): void {
+    this.apiAvailable = available;
+
+    if (!available) {
+      this.platform.log.warn(`Marking ${this.displayName} as not responding until the SleepMe API recovers`);
+      service.updateCharacteristic(characteristic, noResponse(this.platform.api));
+      return;
+    }
+
+    service.updateCharacteristic(characteristic, value);
+  }
+
+  /**
+   * Report a failed write to HomeKit, after putting the characteristics back to
+   * the last values the device confirmed so the Home app does not show a change
+   * that never happened
+   */
+  handleWriteError(action: string, error: unknown, rollback: () => void): void {
+    if (error instanceof Error) {
+      this.platform.log.error(`Error ${action}: ${error.message}`);
+    } else {
+      this.platform.log.error(`Unknown error ${action}`);
+    }
+
+    rollback();
+    throw writeFailureStatus(this.platform.api, error);
+  }
+}
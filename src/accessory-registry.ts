@@ -0,0 +1,181 @@
+import { API, Logger, PlatformAccessory } from 'homebridge';
+import { PLATFORM_NAME, PLUGIN_NAME } from './settings.js';
+
+/**
+ * Kinds of accessories the platform exposes for a device
+ */
+export type AccessoryKind = 'thermostat' | 'heaterCooler' | 'humidity';
+
+/**
+ * Anything that drives a registered accessory and must be stopped when it goes away
+ */
+export interface AccessoryHandler {
+  dispose(): void;
+}
+
+/**
+ * Device information stored in accessory.context.device
+ */
+export interface AccessoryDevice {
+  id: string;
+  name: string;
+}
+
+/**
+ * How to build and name one kind of accessory
+ */
+export interface AccessoryKindSpec<TOwner> {
+  uuidSeed: (deviceId: string) => string; // Input to the UUID hash; must never change for a kind
+  displayName: (deviceName: string) => string;
+  create: (accessory: PlatformAccessory, owner: TOwner) => AccessoryHandler;
+}
+
+interface RegistryEntry {
+  accessory: PlatformAccessory;
+  handler?: AccessoryHandler;
+  ownerId?: string; // Owner the handler was created for
+}
+
+/**
+ * Tracks every accessory the platform has registered, keyed by UUID, with its
+ * kind stored in accessory.context.kind. Creation, restoration from the cache
+ * and removal go through here for every kind alike.
+ * @typeParam TOwner What handlers are created for, e.g. the account owning the device
+ */
+export class AccessoryRegistry<TOwner extends { id: string }> {
+  private readonly entries = new Map<string, RegistryEntry>(); // UUID -> entry
+
+  constructor(
+    private readonly log: Logger,
+    private readonly api: API,
+    private readonly kinds: Record<AccessoryKind, AccessoryKindSpec<TOwner>>,
+  ) {}
+
+  /**
+   * Track an accessory restored from Homebridge's cache
+   * Accessories cached before kinds were stored get their kind inferred from the UUID.
+   */
+  restore(accessory: PlatformAccessory): void {
+    if (!accessory.context.kind) {
+      const kind = this.inferKind(accessory);
+      if (kind) {
+        accessory.context.kind = kind;
+        this.log.debug(`Inferred kind "${kind}" for cached accessory ${accessory.displayName}`);
+      } else {
+        this.log.warn(`Cannot tell what cached accessory ${accessory.displayName} is; it will be removed unless rediscovered`);
+      }
+    }
+
+    this.entries.set(accessory.UUID, { accessory });
+  }
+
+  /**
+   * Kind of a tracked accessory, if known
+   */
+  kindOf(accessory: PlatformAccessory): AccessoryKind | undefined {
+    return accessory.context.kind;
+  }
+
+  /**
+   * Whether a device already has an accessory of the given kind, cached or created
+   */
+  has(kind: AccessoryKind, deviceId: string): boolean {
+    return this.entries.has(this.api.hap.uuid.generate(this.kinds[kind].uuidSeed(deviceId)));
+  }
+
+  /**
+   * Make sure a device has an accessory of the given kind, creating or updating it,
+   * and that a handler for the current owner drives it
+   * @returns The accessory's UUID
+   */
+  ensure(kind: AccessoryKind, device: AccessoryDevice, deviceName: string, owner: TOwner): string {
+    const spec = this.kinds[kind];
+    const uuid = this.api.hap.uuid.generate(spec.uuidSeed(device.id));
+    const displayName = spec.displayName(deviceName);
+
+    let entry = this.entries.get(uuid);
+    const isNew = !entry;
+    if (entry) {
+      this.log.debug(`Updating existing ${kind} accessory: ${displayName} (ID: ${device.id})`);
+      this.applyContext(entry.accessory, kind, device, owner);
+      entry.accessory.displayName = displayName;
+      this.api.updatePlatformAccessories([entry.accessory]);
+    } else {
+      this.log.info(`Adding new ${kind} accessory: ${displayName} (ID: ${device.id})`);
+      const accessory = new this.api.platformAccessory(displayName, uuid);
+      this.applyContext(accessory, kind, device, owner);
+      entry = { accessory };
+      this.entries.set(uuid, entry);
+    }
+
+    // Recreate the handler if the device moved to another owner
+    if (!entry.handler || entry.ownerId !== owner.id) {
+      entry.handler?.dispose();
+      entry.handler = spec.create(entry.accessory, owner);
+      entry.ownerId = owner.id;
+    }
+
+    // Register new accessories only once their services are set up
+    if (isNew) {
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [entry.accessory]);
+    }
+
+    return uuid;
+  }
+
+  /**
+   * Remove every accessory that is not in use
+   * @param inUse UUIDs returned by ensure() during this discovery
+   * @param keep Accessories to leave alone even though they were not seen, e.g. of unreachable accounts
+   */
+  prune(inUse: Set<string>, keep: (accessory: PlatformAccessory) => boolean = () => false): PlatformAccessory[] {
+    const removed: PlatformAccessory[] = [];
+
+    this.entries.forEach((entry, uuid) => {
+      if (inUse.has(uuid) || keep(entry.accessory)) {
+        return;
+      }
+
+      this.log.info(`Removing accessory no longer found: ${entry.accessory.displayName}`);
+      entry.handler?.dispose();
+      this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [entry.accessory]);
+      this.entries.delete(uuid);
+      removed.push(entry.accessory);
+    });
+
+    return removed;
+  }
+
+  /**
+   * Stop every handler (on shutdown)
+   */
+  disposeAll(): void {
+    this.entries.forEach(entry => {
+      entry.handler?.dispose();
+      entry.handler = undefined;
+    });
+  }
+
+  private applyContext(accessory: PlatformAccessory, kind: AccessoryKind, device: AccessoryDevice, owner: TOwner): void {
+    accessory.context.kind = kind;
+    accessory.context.device = device;
+    accessory.context.accountId = owner.id;
+  }
+
+  /**
+   * Work out the kind of a legacy accessory by regenerating each kind's UUID
+   */
+  private inferKind(accessory: PlatformAccessory): AccessoryKind | undefined {
+    const deviceId = accessory.context.device?.id;
+    if (!deviceId) {
+      return undefined;
+    }
+
+    for (const kind of Object.keys(this.kinds) as AccessoryKind[]) {
+      if (this.api.hap.uuid.generate(this.kinds[kind].uuidSeed(deviceId)) === accessory.UUID) {
+        return kind;
+      }
+    }
+    return undefined;
+  }
+}
@@ -6,6 +6,7 @@
 import axios, { AxiosResponse, AxiosError } from 'axios';
 import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
 import { SleepMePlatform } from './platform.js';
+import { Temperature } from './temperature.js';
 
 interface DeviceStatusResponse {
   status: {
@@ -249,8 +250,11 @@ export class SleepMeAccessory {
       const url = `https://api.developer.sleep.me/v1/devices/${this.deviceId}`;
       const thermalControlStatus = this.mapHomeKitStateToSleepMe(this.currentHeatingState);
 
+      // Send whole °F when configured for Fahrenheit so the device does not round again
+      const unit = this.platform.config.unit === 'F' ? 'F' : 'C';
+      const target = Temperature.fromCelsius(this.targetTemperature).round(unit);
       const data = {
-        set_temperature_c: this.targetTemperature,
+        ...(unit === 'F' ? { set_temperature_f: Math.round(target.fahrenheit) } : { set_temperature_c: target.celsius }),
         brightness_level: 100,
         thermal_control_status: thermalControlStatus,
       };
@@ -0,0 +1,139 @@
+import { TransportError } from './http-transport.js';
+
+/**
+ * Base class for every error raised by SleepMeApi
+ */
+export class SleepMeApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number, // HTTP status, when the server answered
+    options?: { cause?: unknown },
+  ) {
+    super(message, options);
+    this.name = 'SleepMeApiError';
+  }
+}
+
+/**
+ * The API token was rejected (401/403)
+ */
+export class AuthenticationError extends SleepMeApiError {
+  constructor(message = 'Authentication failed. Please check your API token.', status?: number, options?: { cause?: unknown }) {
+    super(message, status, options);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The server answered 429 Too Many Requests
+ */
+export class RateLimitError extends SleepMeApiError {
+  constructor(
+    message = 'Rate limit exceeded',
+    public readonly retryAfter?: number, // milliseconds, when the server told us
+    options?: { cause?: unknown },
+  ) {
+    super(message, 429, options);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * The requested device does not exist for this account (404)
+ */
+export class DeviceNotFoundError extends SleepMeApiError {
+  constructor(public readonly deviceId: string, options?: { cause?: unknown }) {
+    super(`Device ${deviceId} not found. Please check if the device ID is correct.`, 404, options);
+    this.name = 'DeviceNotFoundError';
+  }
+}
+
+/**
+ * No response was received (connection failure or timeout)
+ */
+export class NetworkError extends SleepMeApiError {
+  constructor(message: string, public readonly timedOut = false, options?: { cause?: unknown }) {
+    super(message, undefined, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The server failed to handle the request (5xx)
+ */
+export class ServerError extends SleepMeApiError {
+  constructor(message: string, status: number, options?: { cause?: unknown }) {
+    super(message, status, options);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The response could not be understood
+ */
+export class MalformedResponseError extends SleepMeApiError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, undefined, options);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+/**
+ * A queued request was discarded before it was sent
+ */
+export class RequestDroppedError extends SleepMeApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestDroppedError';
+  }
+}
+
+/**
+ * Convert any error thrown while talking to the API into a SleepMeApiError
+ */
+export function toApiError(error: unknown, deviceId?: string): SleepMeApiError {
+  if (error instanceof SleepMeApiError) {
+    return error;
+  }
+
+  if (error instanceof TransportError) {
+    const response = error.response;
+
+    if (!response) {
+      const timedOut = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+      const reason = timedOut ? 'Request timed out' : 'No response received';
+      return new NetworkError(`${reason} - ${error.message}`, timedOut, { cause: error });
+    }
+
+    const details = typeof response.data === 'object'
+      ? JSON.stringify(response.data || {})
+      : String(response.data ?? '');
+
+    switch (response.status) {
+      case 401:
+      case 403:
+        return new AuthenticationError(undefined, response.status, { cause: error });
+      case 404:
+        if (deviceId) {
+          return new DeviceNotFoundError(deviceId, { cause: error });
+        }
+        break;
+      case 429: {
+        const retryAfter = Number(response.headers['retry-after']);
+        return new RateLimitError(undefined, isNaN(retryAfter) ? undefined : retryAfter * 1000, { cause: error });
+      }
+    }
+
+    if (response.status >= 500) {
+      return new ServerError(`Server error ${response.status} - ${details}`, response.status, { cause: error });
+    }
+
+    return new SleepMeApiError(`Status ${response.status} - ${details}`, response.status, { cause: error });
+  }
+
+  if (error instanceof Error) {
+    return new SleepMeApiError(error.message, undefined, { cause: error });
+  }
+
+  return new SleepMeApiError(String(error));
+}
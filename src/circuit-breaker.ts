@@ -0,0 +1,148 @@
+import { Logger } from 'homebridge';
+import { SleepMeApiError } from './api-errors.js';
+
+/**
+ * closed: requests flow normally
+ * open: requests fail fast until the next probe is due
+ * half-open: a single probe request is testing whether the API recovered
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures before the circuit opens
+  probeInterval: number; // How long to wait before probing an open circuit (milliseconds)
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  probeInterval: 60000,
+};
+
+/**
+ * Thrown instead of sending a request while the circuit is open
+ */
+export class CircuitOpenError extends SleepMeApiError {
+  constructor(public readonly retryAt: number) {
+    super('SleepMe API is unavailable, requests are paused until it recovers');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Stops calling the API after repeated outage failures and lets a single
+ * probe through every probe interval until a request succeeds again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private readonly options: CircuitBreakerOptions;
+  private readonly listeners = new Set<(state: CircuitState) => void>();
+
+  constructor(
+    private readonly log: Logger,
+    private readonly isFailure: (error: unknown) => boolean, // Which errors indicate an outage
+    options: Partial<CircuitBreakerOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS };
+    if (typeof options.failureThreshold === 'number' && options.failureThreshold >= 1) {
+      this.options.failureThreshold = Math.floor(options.failureThreshold);
+    }
+    if (typeof options.probeInterval === 'number' && options.probeInterval > 0) {
+      this.options.probeInterval = options.probeInterval;
+    }
+  }
+
+  /**
+   * Current state of the circuit
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Whether requests are currently being let through normally
+   */
+  isClosed(): boolean {
+    return this.state === 'closed';
+  }
+
+  /**
+   * Register a listener for state changes; returns a function that removes it
+   */
+  onStateChange(listener: (state: CircuitState) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Run a request through the breaker
+   */
+  async execute<T>(requestFn: () => Promise<T>): Promise<T> {
+    if (this.state === 'half-open') {
+      // Only the probe may run while we find out whether the API is back
+      throw new CircuitOpenError(this.openedAt + this.options.probeInterval);
+    }
+
+    if (this.state === 'open') {
+      const retryAt = this.openedAt + this.options.probeInterval;
+      if (Date.now() < retryAt) {
+        throw new CircuitOpenError(retryAt);
+      }
+      this.log.debug('[API] Probing whether the SleepMe API has recovered');
+      this.setState('half-open');
+    }
+
+    try {
+      const result = await requestFn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.recordFailure();
+      } else {
+        // The server answered, so it is reachable even if it refused the request
+        this.recordSuccess();
+      }
+      throw error;
+    }
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') {
+      this.log.info('[API] SleepMe API recovered, resuming requests');
+      this.setState('closed');
+    }
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+
+    if (this.state === 'half-open') {
+      this.openedAt = Date.now();
+      this.log.debug(`[API] Probe failed, next attempt in ${Math.round(this.options.probeInterval / 1000)}s`);
+      this.setState('open');
+    } else if (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+      this.log.warn(
+        `[API] SleepMe API unavailable after ${this.consecutiveFailures} consecutive failures, ` +
+        `pausing requests and probing every ${Math.round(this.options.probeInterval / 1000)}s`,
+      );
+      this.setState('open');
+    }
+  }
+
+  private setState(state: CircuitState): void {
+    if (state === this.state) {
+      return;
+    }
+    const wasClosed = this.state === 'closed';
+    this.state = state;
+
+    // Listeners only care about available vs. unavailable, not probe transitions
+    if (wasClosed || state === 'closed') {
+      this.listeners.forEach(listener => listener(state));
+    }
+  }
+}
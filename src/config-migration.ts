@@ -0,0 +1,188 @@
+import { Logger } from 'homebridge';
+import { SleepMePlatformConfig } from './platform-config.js';
+import { DayOfWeek, ScheduleConfig, WarmAwakeAlarmConfig } from './scheduler/types.js';
+
+/**
+ * Version of the config shape this release reads
+ * Configs without `configVersion` are treated as version 1.
+ */
+export const CURRENT_CONFIG_VERSION = 3;
+
+/**
+ * Upgrades a config from the previous version to `version`
+ */
+interface ConfigMigration {
+  version: number; // Version the config has after this migration
+  description: string;
+  migrate: (config: SleepMePlatformConfig) => string[]; // Returns what was changed
+}
+
+/**
+ * Outcome of migrating a config
+ */
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  changes: string[];
+}
+
+/**
+ * Entry of the `temperatureSchedule` list used by the old single-accessory plugin
+ */
+interface LegacyTemperatureSchedule {
+  day?: DayOfWeek;
+  time?: string;
+  temperature?: number;
+  isWakeTime?: boolean;
+  warmAwakeSettings?: {
+    warmUpEnabled?: boolean;
+    warmUpDuration?: number; // minutes
+    warmUpTemperature?: number;
+  };
+}
+
+const MIGRATIONS: ConfigMigration[] = [
+  {
+    version: 2,
+    description: 'Move schedules and Warm Awake under `scheduler`',
+    migrate: config => {
+      const changes: string[] = [];
+
+      if (config.schedules !== undefined || config.warmAwake !== undefined) {
+        config.scheduler = config.scheduler ?? {};
+        if (config.schedules !== undefined) {
+          config.scheduler.schedules = [...(config.scheduler.schedules ?? []), ...config.schedules];
+          delete config.schedules;
+          changes.push('moved `schedules` to `scheduler.schedules`');
+        }
+        if (config.warmAwake !== undefined) {
+          config.scheduler.warmAwake = config.scheduler.warmAwake ?? config.warmAwake;
+          delete config.warmAwake;
+          changes.push('moved `warmAwake` to `scheduler.warmAwake`');
+        }
+      }
+
+      if (Array.isArray(config.temperatureSchedule)) {
+        const legacy = config.temperatureSchedule as LegacyTemperatureSchedule[];
+        const schedules: ScheduleConfig[] = [];
+        const alarms: WarmAwakeAlarmConfig[] = [];
+
+        legacy.forEach((entry, index) => {
+          if (!entry?.day || !entry.time) {
+            return;
+          }
+          if (typeof entry.temperature === 'number') {
+            schedules.push({
+              name: `Schedule ${index + 1}`,
+              days: [entry.day],
+              times: [{ time: entry.time, temperature: entry.temperature }],
+            });
+          }
+          const warmUp = entry.warmAwakeSettings;
+          if (entry.isWakeTime && warmUp?.warmUpEnabled && typeof warmUp.warmUpTemperature === 'number') {
+            alarms.push({
+              name: `Warm Awake ${alarms.length + 1}`,
+              days: [entry.day],
+              time: entry.time,
+              targetTemperature: warmUp.warmUpTemperature,
+              duration: warmUp.warmUpDuration,
+            });
+          }
+        });
+
+        config.scheduler = config.scheduler ?? {};
+        config.scheduler.schedules = [...(config.scheduler.schedules ?? []), ...schedules];
+        if (alarms.length > 0) {
+          const warmAwake = config.scheduler.warmAwake ?? {};
+          config.scheduler.warmAwake = { ...warmAwake, enabled: true, alarms: [...(warmAwake.alarms ?? []), ...alarms] };
+        }
+        if (config.enableScheduling === undefined && (schedules.length > 0 || alarms.length > 0)) {
+          config.enableScheduling = true;
+        }
+        delete config.temperatureSchedule;
+        changes.push(
+          `converted ${legacy.length} \`temperatureSchedule\` entr${legacy.length === 1 ? 'y' : 'ies'} ` +
+          `into ${schedules.length} schedule(s) and ${alarms.length} Warm Awake alarm(s)`,
+        );
+      }
+
+      return changes;
+    },
+  },
+  {
+    version: 3,
+    description: 'Move `verbose` from device overrides to the platform',
+    migrate: config => {
+      const changes: string[] = [];
+      if (!Array.isArray(config.devices)) {
+        return changes;
+      }
+
+      config.devices.forEach((device, index) => {
+        const legacy = device as { verbose?: boolean };
+        if (legacy?.verbose === undefined) {
+          return;
+        }
+        if (legacy.verbose === true && config.verbose === undefined) {
+          config.verbose = true;
+          changes.push(`enabled platform \`verbose\` from \`devices[${index}].verbose\``);
+        } else {
+          changes.push(`removed \`devices[${index}].verbose\`; use the platform \`verbose\` setting`);
+        }
+        delete legacy.verbose;
+      });
+      return changes;
+    },
+  },
+];
+
+/**
+ * Upgrade an older config to the current shape, in place
+ * The file itself is not rewritten; saving the config in the Homebridge UI stores the new shape.
+ */
+export function migrateConfig(config: SleepMePlatformConfig): MigrationResult {
+  const fromVersion = typeof config.configVersion === 'number' ? config.configVersion : 1;
+  const result: MigrationResult = { fromVersion, toVersion: fromVersion, changes: [] };
+
+  if (fromVersion >= CURRENT_CONFIG_VERSION) {
+    return result;
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) {
+      continue;
+    }
+    const changes = migration.migrate(config);
+    result.changes.push(...changes.map(change => `v${migration.version} (${migration.description}): ${change}`));
+    result.toVersion = migration.version;
+  }
+
+  config.configVersion = result.toVersion;
+  return result;
+}
+
+/**
+ * Log a summary of what was migrated
+ */
+export function reportMigration(log: Logger, result: MigrationResult): void {
+  if (result.fromVersion > CURRENT_CONFIG_VERSION) {
+    log.warn(
+      `Config version ${result.fromVersion} is newer than this plugin supports (${CURRENT_CONFIG_VERSION}); ` +
+      'some settings may be ignored. Consider updating the plugin.',
+    );
+    return;
+  }
+
+  if (result.changes.length === 0) {
+    if (result.toVersion !== result.fromVersion) {
+      log.debug(`Config upgraded from version ${result.fromVersion} to ${result.toVersion}, nothing to change`);
+    }
+    return;
+  }
+
+  const lines = result.changes.map(change => `  - ${change}`);
+  log.info(
+    `Migrated config from version ${result.fromVersion} to ${result.toVersion}:\n${lines.join('\n')}\n` +
+    'Save the plugin settings in the Homebridge UI to keep the new format.',
+  );
+}
@@ -0,0 +1,309 @@
+import { Logger } from 'homebridge';
+import { SleepMePlatformConfig } from './platform-config.js';
+import { TokenSourceConfig, configuredTokenSources } from './token-source.js';
+import {
+  DEVICE_MAX_TEMPERATURE,
+  DEVICE_MIN_TEMPERATURE,
+  EXTRA_SERVICES,
+  ExtraService,
+  MAX_TEMPERATURE_OFFSET,
+  MIN_POLLING_INTERVAL,
+  SERVICE_TYPES,
+  ServiceType,
+} from './device-config.js';
+import { MAX_MODES, MaxMode } from './max-mode.js';
+
+/**
+ * One problem found in the configuration
+ */
+export interface ConfigProblem {
+  path: string; // Location of the field, e.g. "scheduler.schedules[1].times[0].time"
+  message: string;
+}
+
+const VALID_DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'everyday'];
+const VALID_POWER = ['on', 'off', 'no_change'];
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/; // "7:00" is accepted as well as "07:00"
+
+/**
+ * Whether a value is a 24-hour "HH:MM" time
+ */
+export function isValidTime(time: unknown): time is string {
+  return typeof time === 'string' && TIME_PATTERN.test(time);
+}
+
+/**
+ * Collects problems while walking the config
+ */
+class ProblemCollector {
+  readonly problems: ConfigProblem[] = [];
+
+  add(path: string, message: string): void {
+    this.problems.push({ path, message });
+  }
+
+  /**
+   * Check an optional number against a range; returns whether it is usable
+   */
+  number(path: string, value: unknown, min: number, max = Infinity, unit = ''): boolean {
+    if (value === undefined) {
+      return false;
+    }
+    if (typeof value !== 'number' || isNaN(value)) {
+      this.add(path, `must be a number, got ${JSON.stringify(value)}`);
+      return false;
+    }
+    if (value < min || value > max) {
+      const range = max === Infinity ? `at least ${min}${unit}` : `between ${min} and ${max}${unit}`;
+      this.add(path, `must be ${range}, got ${value}${unit}`);
+      return false;
+    }
+    return true;
+  }
+
+  boolean(path: string, value: unknown): void {
+    if (value !== undefined && typeof value !== 'boolean') {
+      this.add(path, `must be true or false, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  oneOf(path: string, value: unknown, allowed: string[]): void {
+    if (value !== undefined && !allowed.includes(value as string)) {
+      this.add(path, `must be one of ${allowed.map(option => `"${option}"`).join(', ')}, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  days(path: string, days: unknown): void {
+    if (!Array.isArray(days) || days.length === 0) {
+      this.add(path, 'no days selected; the entry is skipped');
+      return;
+    }
+    days.forEach((day, index) => this.oneOf(`${path}[${index}]`, day, VALID_DAYS));
+  }
+
+  time(path: string, time: unknown): void {
+    if (!isValidTime(time)) {
+      this.add(path, `must be a 24-hour HH:MM time, got ${JSON.stringify(time)}; the entry is skipped`);
+    }
+  }
+
+  /**
+   * Report entries of a list that share a name
+   */
+  duplicates(path: string, names: (string | undefined)[], field = 'name'): void {
+    const seen = new Map<string, number>();
+    names.forEach((name, index) => {
+      const key = name?.trim().toLowerCase();
+      if (!key) {
+        return;
+      }
+      const first = seen.get(key);
+      if (first === undefined) {
+        seen.set(key, index);
+      } else {
+        this.add(`${path}[${index}].${field}`, `"${name}" is already used by ${path}[${first}]`);
+      }
+    });
+  }
+}
+
+/**
+ * Check the whole platform config for problems that can be found before discovery
+ */
+export function validateConfig(config: SleepMePlatformConfig): ConfigProblem[] {
+  const problems = new ProblemCollector();
+
+  validateAccounts(config, problems);
+
+  problems.oneOf('unit', config.unit, ['C', 'F']);
+  problems.boolean('verbose', config.verbose);
+  problems.boolean('redactDeviceIds', config.redactDeviceIds);
+  problems.boolean('enableHumidity', config.enableHumidity);
+  problems.boolean('enableScheduling', config.enableScheduling);
+  problems.number('discoveryInterval', config.discoveryInterval, 0, Infinity, ' minutes');
+  problems.number('statusCacheTtl', config.statusCacheTtl, 0, Infinity, ' ms');
+
+  if (config.retry !== undefined) {
+    for (const [key, value] of Object.entries(config.retry)) {
+      problems.number(`retry.${key}`, value, 0);
+    }
+  }
+  if (config.circuitBreaker !== undefined) {
+    problems.number('circuitBreaker.failureThreshold', config.circuitBreaker.failureThreshold, 1);
+    problems.number('circuitBreaker.probeInterval', config.circuitBreaker.probeInterval, 1000, Infinity, ' ms');
+  }
+
+  validateDevices(config, problems);
+  validateScheduler(config, problems);
+
+  return problems.problems;
+}
+
+/**
+ * Report `devices[]` overrides whose ID matches no discovered device
+ */
+export function validateDeviceIds(config: SleepMePlatformConfig, knownDeviceIds: Set<string>): ConfigProblem[] {
+  const problems = new ProblemCollector();
+  if (Array.isArray(config.devices)) {
+    config.devices.forEach((device, index) => {
+      if (typeof device?.id === 'string' && device.id !== '' && !knownDeviceIds.has(device.id)) {
+        problems.add(`devices[${index}].id`, `no device with ID "${device.id}" was found in your SleepMe account(s)`);
+      }
+    });
+  }
+  return problems.problems;
+}
+
+/**
+ * Log every problem in one block so they can be fixed in one go
+ */
+export function reportConfigProblems(log: Logger, problems: ConfigProblem[], context = 'Configuration'): void {
+  if (problems.length === 0) {
+    return;
+  }
+
+  const lines = problems.map(problem => `  - ${problem.path}: ${problem.message}`);
+  log.warn(`${context} has ${problems.length} problem(s):\n${lines.join('\n')}`);
+}
+
+function validateAccounts(config: SleepMePlatformConfig, problems: ProblemCollector): void {
+  const accounts = config.accounts;
+  if (accounts !== undefined && !Array.isArray(accounts)) {
+    problems.add('accounts', 'must be a list of { name, apiToken } entries');
+    return;
+  }
+
+  const hasRootToken = tokenSources('', config, problems) > 0;
+  if (!hasRootToken && (!accounts || accounts.length === 0)) {
+    problems.add('apiToken', 'is required unless accounts are configured (or use apiTokenEnv, apiTokenFile or apiTokenCommand)');
+  }
+
+  if (!accounts) {
+    return;
+  }
+
+  accounts.forEach((account, index) => {
+    if (tokenSources(`accounts[${index}].`, account ?? {}, problems) === 0) {
+      problems.add(`accounts[${index}].apiToken`, 'is missing; the account is skipped');
+    }
+  });
+  problems.duplicates('accounts', accounts.map(account => account?.name));
+}
+
+/**
+ * Count the token sources of a config entry, reporting ambiguous ones
+ */
+function tokenSources(prefix: string, config: TokenSourceConfig, problems: ProblemCollector): number {
+  const keys = configuredTokenSources(config);
+  keys.slice(1).forEach(key =>
+    problems.add(`${prefix}${key}`, `is ignored because ${prefix}${keys[0]} is also set; use only one token source`));
+  return keys.length;
+}
+
+function validateDevices(config: SleepMePlatformConfig, problems: ProblemCollector): void {
+  const devices = config.devices;
+  if (devices === undefined) {
+    return;
+  }
+  if (!Array.isArray(devices)) {
+    problems.add('devices', 'must be a list of device overrides');
+    return;
+  }
+
+  devices.forEach((device, index) => {
+    const path = `devices[${index}]`;
+    if (typeof device?.id !== 'string' || device.id.trim() === '') {
+      problems.add(`${path}.id`, 'is missing; the override is ignored');
+      return;
+    }
+
+    const minValid = problems.number(
+      `${path}.minTemperature`, device.minTemperature, DEVICE_MIN_TEMPERATURE, DEVICE_MAX_TEMPERATURE, '°C');
+    const maxValid = problems.number(
+      `${path}.maxTemperature`, device.maxTemperature, DEVICE_MIN_TEMPERATURE, DEVICE_MAX_TEMPERATURE, '°C');
+    if (minValid && maxValid && device.minTemperature! >= device.maxTemperature!) {
+      problems.add(`${path}.minTemperature`, `must be below maxTemperature (${device.maxTemperature}°C)`);
+    }
+
+    problems.number(`${path}.pollingInterval`, device.pollingInterval, MIN_POLLING_INTERVAL, Infinity, ' seconds');
+    problems.number(
+      `${path}.temperatureOffset`, device.temperatureOffset, -MAX_TEMPERATURE_OFFSET, MAX_TEMPERATURE_OFFSET, '°C');
+    problems.boolean(`${path}.enableHumidity`, device.enableHumidity);
+    problems.oneOf(`${path}.unit`, device.unit, ['C', 'F']);
+    problems.oneOf(`${path}.serviceType`, device.serviceType, SERVICE_TYPES as ServiceType[]);
+
+    if (device.services !== undefined) {
+      if (Array.isArray(device.services)) {
+        device.services.forEach((service, serviceIndex) =>
+          problems.oneOf(`${path}.services[${serviceIndex}]`, service, EXTRA_SERVICES as ExtraService[]));
+      } else {
+        problems.add(`${path}.services`, 'must be a list');
+      }
+    }
+  });
+
+  problems.duplicates('devices', devices.map(device => device?.id), 'id');
+  problems.duplicates('devices', devices.map(device => device?.name));
+}
+
+function validateScheduler(config: SleepMePlatformConfig, problems: ProblemCollector): void {
+  const schedules = config.scheduler?.schedules;
+  if (Array.isArray(schedules)) {
+    schedules.forEach((schedule, index) => {
+      const path = `scheduler.schedules[${index}]`;
+      if (schedule?.enabled === false) {
+        return;
+      }
+
+      problems.days(`${path}.days`, schedule?.days);
+
+      if (!Array.isArray(schedule?.times) || schedule.times.length === 0) {
+        problems.add(`${path}.times`, 'no times configured; the schedule is skipped');
+        return;
+      }
+      schedule.times.forEach((entry, timeIndex) => {
+        const timePath = `${path}.times[${timeIndex}]`;
+        problems.time(`${timePath}.time`, entry?.time);
+        problems.oneOf(`${timePath}.maxMode`, entry?.maxMode, MAX_MODES as MaxMode[]);
+        // A max mode replaces the temperature
+        if (entry?.maxMode === undefined && entry?.temperature === undefined) {
+          problems.add(`${timePath}.temperature`, 'is missing; the entry is skipped');
+        } else if (entry?.maxMode === undefined) {
+          problems.number(`${timePath}.temperature`, entry.temperature, DEVICE_MIN_TEMPERATURE, DEVICE_MAX_TEMPERATURE, '°C');
+        }
+        problems.oneOf(`${timePath}.power`, entry?.power, VALID_POWER);
+      });
+    });
+    problems.duplicates('scheduler.schedules', schedules.map(schedule => schedule?.name));
+  } else if (schedules !== undefined) {
+    problems.add('scheduler.schedules', 'must be a list of schedules');
+  }
+
+  const warmAwake = config.scheduler?.warmAwake;
+  if (warmAwake?.enabled !== true) {
+    return;
+  }
+  if (!Array.isArray(warmAwake.alarms)) {
+    problems.add('scheduler.warmAwake.alarms', 'Warm Awake is enabled but no alarms are configured');
+    return;
+  }
+
+  warmAwake.alarms.forEach((alarm, index) => {
+    const path = `scheduler.warmAwake.alarms[${index}]`;
+    if (alarm?.enabled === false) {
+      return;
+    }
+
+    problems.days(`${path}.days`, alarm?.days);
+    problems.time(`${path}.time`, alarm?.time);
+    problems.oneOf(`${path}.maxMode`, alarm?.maxMode, MAX_MODES as MaxMode[]);
+    // A max mode replaces the target temperature
+    if (alarm?.maxMode === undefined && alarm?.targetTemperature === undefined) {
+      problems.add(`${path}.targetTemperature`, 'is missing; the alarm is skipped');
+    } else if (alarm?.maxMode === undefined) {
+      problems.number(`${path}.targetTemperature`, alarm.targetTemperature, DEVICE_MIN_TEMPERATURE, DEVICE_MAX_TEMPERATURE, '°C');
+    }
+    problems.number(`${path}.duration`, alarm?.duration, 5, 60, ' minutes');
+  });
+  problems.duplicates('scheduler.warmAwake.alarms', warmAwake.alarms.map(alarm => alarm?.name));
+}
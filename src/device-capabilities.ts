@@ -0,0 +1,170 @@
+import { DeviceStatus } from './device-status.js';
+import { DEVICE_MAX_TEMPERATURE, DEVICE_MIN_TEMPERATURE, DeviceOptions } from './device-config.js';
+import { DEVICE_TEMPERATURE_STEP, Temperature, TemperatureUnit } from './temperature.js';
+import { MaxMode, SetpointTarget, isMaxMode } from './max-mode.js';
+
+/**
+ * SleepMe hardware families
+ */
+export type DeviceModel = 'dockPro' | 'chiliPad' | 'ooler' | 'unknown';
+
+/**
+ * What a device can do, used for validation and characteristic props
+ */
+export interface DeviceCapabilities {
+  model: DeviceModel;
+  modelName: string; // Shown as the Model characteristic
+  minTemperature: number; // Lowest set point the hardware accepts (Celsius)
+  maxTemperature: number; // Highest set point the hardware accepts (Celsius)
+  temperatureStep: Record<TemperatureUnit, number>; // Smallest set point change per unit
+  humidity: boolean; // Reports relative humidity
+  waterLevel: boolean; // Reports the reservoir level in percent
+  brightness: boolean; // Has a display with adjustable brightness
+  maxModes: boolean; // Supports Max Cool and Max Heat beyond the set point range
+  firmwareVersion?: string;
+}
+
+type CapabilityProfile = Omit<DeviceCapabilities, 'firmwareVersion'>;
+
+const PROFILES: Record<DeviceModel, CapabilityProfile> = {
+  dockPro: {
+    model: 'dockPro',
+    modelName: 'Dock Pro',
+    minTemperature: 13, // 55°F
+    maxTemperature: 46, // 115°F
+    temperatureStep: DEVICE_TEMPERATURE_STEP,
+    humidity: true,
+    waterLevel: true,
+    brightness: true,
+    maxModes: true,
+  },
+  chiliPad: {
+    model: 'chiliPad',
+    modelName: 'ChiliPad',
+    minTemperature: 13, // 55°F
+    maxTemperature: 43, // 110°F
+    temperatureStep: DEVICE_TEMPERATURE_STEP,
+    humidity: false,
+    waterLevel: false, // Only a low water warning
+    brightness: false,
+    maxModes: false,
+  },
+  ooler: {
+    model: 'ooler',
+    modelName: 'OOLER',
+    minTemperature: 13, // 55°F
+    maxTemperature: 46, // 115°F
+    temperatureStep: DEVICE_TEMPERATURE_STEP,
+    humidity: false,
+    waterLevel: true,
+    brightness: true,
+    maxModes: false,
+  },
+  // Nothing is hidden for hardware we cannot identify
+  unknown: {
+    model: 'unknown',
+    modelName: 'SleepMe',
+    minTemperature: DEVICE_MIN_TEMPERATURE,
+    maxTemperature: DEVICE_MAX_TEMPERATURE,
+    temperatureStep: DEVICE_TEMPERATURE_STEP,
+    humidity: true,
+    waterLevel: true,
+    brightness: true,
+    maxModes: true,
+  },
+};
+
+/**
+ * Patterns for the names the API uses in attachments and about.model, checked in order
+ */
+const MODEL_PATTERNS: [DeviceModel, RegExp][] = [
+  ['dockPro', /dock|^DP\d/i],
+  ['ooler', /ooler|^OL\d/i],
+  ['chiliPad', /chili|cube|^CP\d/i],
+];
+
+/**
+ * Discovery information used to identify a device, as stored in accessory.context.device
+ */
+export interface DeviceIdentity {
+  attachments?: string | string[];
+}
+
+function identifyModel(device?: DeviceIdentity, status?: DeviceStatus): DeviceModel {
+  const attachments = device?.attachments;
+  const names = [
+    ...(Array.isArray(attachments) ? attachments : [attachments]),
+    status?.about.model,
+  ].filter((name): name is string => typeof name === 'string' && name.trim() !== '');
+
+  for (const [model, pattern] of MODEL_PATTERNS) {
+    if (names.some(name => pattern.test(name.trim()))) {
+      return model;
+    }
+  }
+  return 'unknown';
+}
+
+/**
+ * Work out a device's capabilities from its discovery entry and, once known, its status.
+ * Features the status payload reports (or leaves out) win over the model's profile.
+ */
+export function detectCapabilities(device?: DeviceIdentity, status?: DeviceStatus): DeviceCapabilities {
+  const profile = PROFILES[identifyModel(device, status)];
+  if (!status) {
+    return { ...profile };
+  }
+
+  return {
+    ...profile,
+    humidity: typeof status.status.humidity === 'number',
+    waterLevel: typeof status.status.water_level === 'number',
+    brightness: typeof status.control.brightness_level === 'number',
+    firmwareVersion: status.about.firmware_version,
+  };
+}
+
+/**
+ * Target temperature range offered for a device: its configured range within what the hardware accepts
+ */
+export function allowedRange(
+  capabilities: DeviceCapabilities,
+  options?: Pick<DeviceOptions, 'minTemperature' | 'maxTemperature'>,
+): { min: number; max: number } {
+  const min = Math.max(capabilities.minTemperature, options?.minTemperature ?? -Infinity);
+  const max = Math.min(capabilities.maxTemperature, options?.maxTemperature ?? Infinity);
+  return min < max
+    ? { min, max }
+    : { min: capabilities.minTemperature, max: capabilities.maxTemperature };
+}
+
+/**
+ * Whether a Celsius set point is within what a device accepts
+ */
+export function acceptsSetpoint(capabilities: DeviceCapabilities, celsius: number): boolean {
+  return celsius >= capabilities.minTemperature && celsius <= capabilities.maxTemperature;
+}
+
+/**
+ * Clamp a Celsius set point to what a device accepts; rounding is left to the API client
+ */
+export function clampSetpoint(capabilities: DeviceCapabilities, celsius: number): number {
+  return Temperature.fromCelsius(celsius).clamp(capabilities.minTemperature, capabilities.maxTemperature).celsius;
+}
+
+/**
+ * What to send for a schedule or Warm Awake target. A max mode comes with the
+ * end of the normal range it extends, which is also used on models without max modes.
+ */
+export function resolveTarget(
+  capabilities: DeviceCapabilities,
+  target: SetpointTarget,
+): { temperature: number; maxMode?: MaxMode } {
+  if (!isMaxMode(target)) {
+    return { temperature: clampSetpoint(capabilities, target) };
+  }
+  return {
+    temperature: target === 'maxCool' ? capabilities.minTemperature : capabilities.maxTemperature,
+    maxMode: capabilities.maxModes ? target : undefined,
+  };
+}
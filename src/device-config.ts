@@ -0,0 +1,140 @@
+import { Logger } from 'homebridge';
+import { DeviceConfig, SleepMePlatformConfig } from './platform-config.js';
+import { TemperatureUnit } from './temperature.js';
+
+/**
+ * Extra HomeKit services that can be exposed for a device
+ */
+export type ExtraService =
+  | 'waterLevel' // Battery service showing the water reservoir
+  | 'maxCool' // Switch for Max Cool
+  | 'maxHeat'; // Switch for Max Heat
+
+export const EXTRA_SERVICES: readonly ExtraService[] = ['waterLevel', 'maxCool', 'maxHeat'];
+
+/**
+ * Extra services exposed when a device override does not list any
+ */
+export const DEFAULT_EXTRA_SERVICES: readonly ExtraService[] = ['waterLevel'];
+
+/**
+ * HomeKit service the device's temperature control is exposed as
+ */
+export type ServiceType =
+  | 'thermostat' // Single target temperature
+  | 'heaterCooler'; // Active switch with separate heating and cooling thresholds
+
+export const SERVICE_TYPES: readonly ServiceType[] = ['thermostat', 'heaterCooler'];
+
+/**
+ * Temperature limits supported by SleepMe devices (Celsius)
+ */
+export const DEVICE_MIN_TEMPERATURE = 13; // 55°F
+export const DEVICE_MAX_TEMPERATURE = 46; // 115°F
+
+/**
+ * Settings for one device, with platform-wide defaults applied
+ */
+export interface DeviceOptions {
+  id: string;
+  name?: string; // Name override
+  minTemperature: number; // Lowest target temperature offered in HomeKit (Celsius)
+  maxTemperature: number; // Highest target temperature offered in HomeKit (Celsius)
+  pollingInterval?: number; // Fixed poll interval (milliseconds); adaptive when unset
+  enableHumidity: boolean; // Expose a separate humidity sensor accessory
+  unit: TemperatureUnit; // Temperature unit shown in HomeKit and sent to the device
+  temperatureOffset: number; // Added to the reported water temperature (Celsius)
+  services: ExtraService[];
+  serviceType: ServiceType;
+}
+
+export const MIN_POLLING_INTERVAL = 10; // seconds
+export const MAX_TEMPERATURE_OFFSET = 5; // Celsius, either direction
+
+/**
+ * Resolve the options for a device from its `devices[]` entry and the platform defaults
+ * Invalid values are replaced by the defaults; the startup config report explains why.
+ */
+export function resolveDeviceOptions(config: SleepMePlatformConfig, deviceId: string, log: Logger): DeviceOptions {
+  const entry: DeviceConfig = Array.isArray(config.devices)
+    ? config.devices.find(device => device?.id === deviceId) || {}
+    : {};
+
+  const options: DeviceOptions = {
+    id: deviceId,
+    name: typeof entry.name === 'string' && entry.name.trim() !== '' ? entry.name : undefined,
+    minTemperature: DEVICE_MIN_TEMPERATURE,
+    maxTemperature: DEVICE_MAX_TEMPERATURE,
+    enableHumidity: typeof entry.enableHumidity === 'boolean' ? entry.enableHumidity : config.enableHumidity === true,
+    unit: (entry.unit ?? config.unit) === 'C' ? 'C' : 'F',
+    temperatureOffset: 0,
+    services: [...DEFAULT_EXTRA_SERVICES],
+    serviceType: 'thermostat',
+  };
+
+  // The config validator reports these problems as warnings; this only notes the fallback chosen
+  const explain = (message: string) => log.debug(`Device ${deviceId}: ${message}`);
+
+  const inRange = (value: unknown): value is number =>
+    typeof value === 'number' && value >= DEVICE_MIN_TEMPERATURE && value <= DEVICE_MAX_TEMPERATURE;
+
+  if (entry.minTemperature !== undefined) {
+    if (inRange(entry.minTemperature)) {
+      options.minTemperature = entry.minTemperature;
+    } else {
+      explain(`minTemperature must be between ${DEVICE_MIN_TEMPERATURE} and ${DEVICE_MAX_TEMPERATURE}°C, ignoring ${entry.minTemperature}`);
+    }
+  }
+
+  if (entry.maxTemperature !== undefined) {
+    if (inRange(entry.maxTemperature)) {
+      options.maxTemperature = entry.maxTemperature;
+    } else {
+      explain(`maxTemperature must be between ${DEVICE_MIN_TEMPERATURE} and ${DEVICE_MAX_TEMPERATURE}°C, ignoring ${entry.maxTemperature}`);
+    }
+  }
+
+  if (options.minTemperature >= options.maxTemperature) {
+    explain(`minTemperature (${options.minTemperature}°C) must be below maxTemperature (${options.maxTemperature}°C), using the full range`);
+    options.minTemperature = DEVICE_MIN_TEMPERATURE;
+    options.maxTemperature = DEVICE_MAX_TEMPERATURE;
+  }
+
+  if (entry.pollingInterval !== undefined) {
+    if (typeof entry.pollingInterval === 'number' && entry.pollingInterval >= MIN_POLLING_INTERVAL) {
+      options.pollingInterval = entry.pollingInterval * 1000;
+    } else {
+      explain(`pollingInterval must be at least ${MIN_POLLING_INTERVAL} seconds, using adaptive polling`);
+    }
+  }
+
+  if (entry.temperatureOffset !== undefined) {
+    if (typeof entry.temperatureOffset === 'number' && Math.abs(entry.temperatureOffset) <= MAX_TEMPERATURE_OFFSET) {
+      options.temperatureOffset = entry.temperatureOffset;
+    } else {
+      explain(`temperatureOffset must be between -${MAX_TEMPERATURE_OFFSET} and ${MAX_TEMPERATURE_OFFSET}°C, ignoring ${entry.temperatureOffset}`);
+    }
+  }
+
+  if (entry.services !== undefined) {
+    if (Array.isArray(entry.services)) {
+      const unknown = entry.services.filter(service => !EXTRA_SERVICES.includes(service));
+      if (unknown.length > 0) {
+        explain(`unknown services ${unknown.join(', ')} ignored`);
+      }
+      options.services = entry.services.filter(service => EXTRA_SERVICES.includes(service));
+    } else {
+      explain('services must be a list, exposing the default services');
+    }
+  }
+
+  if (entry.serviceType !== undefined) {
+    if (SERVICE_TYPES.includes(entry.serviceType)) {
+      options.serviceType = entry.serviceType;
+    } else {
+      explain(`unknown serviceType ${entry.serviceType}, exposing a thermostat`);
+    }
+  }
+
+  return options;
+}
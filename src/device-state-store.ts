@@ -0,0 +1,373 @@
+import { Logger } from 'homebridge';
+import { SleepMeApi } from './sleepme-api.js';
+import { DeviceStatus, deviceSetpoint, isDeviceActive } from './device-status.js';
+import { PollingActivity, PollingPlanner, classifyActivity } from './polling-planner.js';
+import { RequestPriority } from './request-queue.js';
+import { CircuitOpenError } from './circuit-breaker.js';
+import { DeviceStatePersistence } from './state-persistence.js';
+import { MaxMode, maxModeOf } from './max-mode.js';
+import {
+  AuthenticationError,
+  DeviceNotFoundError,
+  NetworkError,
+  RateLimitError,
+  RequestDroppedError,
+  ServerError,
+} from './api-errors.js';
+
+/**
+ * Interpreted state of one device, shared by everything that shows or uses it
+ */
+export interface DeviceState {
+  currentTemperature: number; // Water temperature in Celsius
+  targetTemperature: number; // Set point in Celsius
+  maxMode?: MaxMode; // Running at full power instead of toward the set point
+  active: boolean; // Thermal control is running (not in standby)
+  activity: PollingActivity;
+  humidity?: number; // Relative humidity in percent, 0-100
+  waterLow: boolean;
+  waterLevel?: number; // Reservoir level in percent, 0-100
+  firmwareVersion?: string;
+  updatedAt: number; // When the API last confirmed this state
+  restored: boolean; // Loaded from disk and not yet confirmed since startup
+  status: DeviceStatus; // Payload the state was interpreted from
+}
+
+/**
+ * Age after which a state should no longer be trusted (milliseconds)
+ */
+export const STATE_STALE_AFTER = 10 * 60000;
+
+/**
+ * Whether a state is too old to be shown as current
+ */
+export function isStateStale(state: DeviceState, maxAge = STATE_STALE_AFTER): boolean {
+  return Date.now() - state.updatedAt > maxAge;
+}
+
+/**
+ * Fields compared to decide what changed between two states
+ */
+export type DeviceStateField =
+  | 'currentTemperature'
+  | 'targetTemperature'
+  | 'maxMode'
+  | 'active'
+  | 'humidity'
+  | 'waterLow'
+  | 'waterLevel'
+  | 'firmwareVersion';
+
+const COMPARED_FIELDS: DeviceStateField[] = [
+  'currentTemperature',
+  'targetTemperature',
+  'maxMode',
+  'active',
+  'humidity',
+  'waterLow',
+  'waterLevel',
+  'firmwareVersion',
+];
+
+export type DeviceStateEvent =
+  | { type: 'state'; state: DeviceState; changed: DeviceStateField[] } // changed lists every field on the first state
+  | { type: 'error'; error: unknown }
+  | { type: 'availability'; available: boolean };
+
+export type DeviceStateListener = (event: DeviceStateEvent) => void;
+
+/**
+ * Interpret a raw device status
+ */
+export function interpretStatus(status: DeviceStatus, updatedAt = Date.now(), restored = false): DeviceState {
+  const clampPercent = (value?: number) =>
+    value === undefined ? undefined : Math.min(100, Math.max(0, Math.round(value)));
+
+  return {
+    currentTemperature: status.status.water_temperature_c,
+    targetTemperature: deviceSetpoint(status.control).celsius,
+    maxMode: maxModeOf(status.control),
+    active: isDeviceActive(status),
+    activity: classifyActivity(status),
+    humidity: clampPercent(status.status.humidity),
+    waterLow: status.status.is_water_low === true,
+    waterLevel: clampPercent(status.status.water_level),
+    firmwareVersion: status.about.firmware_version,
+    updatedAt,
+    restored,
+    status,
+  };
+}
+
+interface TrackedDevice {
+  state?: DeviceState;
+  listeners: Set<DeviceStateListener>;
+  timer?: NodeJS.Timeout;
+  refreshing?: Promise<DeviceState>;
+  stopped: boolean;
+  notFound: number; // Consecutive "not found" polls; each one doubles the poll interval
+}
+
+/**
+ * Longest poll interval for a device the API keeps reporting as not found (milliseconds)
+ */
+const NOT_FOUND_MAX_INTERVAL = 30 * 60000;
+
+/**
+ * Holds the latest state of every device on one account. A single poller per
+ * device keeps it current and subscribers are told what changed, so accessories
+ * and the scheduler no longer poll or interpret the payload themselves.
+ */
+export class DeviceStateStore {
+  private readonly devices = new Map<string, TrackedDevice>(); // deviceId -> tracking
+  private readonly unsubscribeApi: (() => void)[] = [];
+
+  constructor(
+    private readonly log: Logger,
+    private readonly api: SleepMeApi,
+    private readonly pollingPlanner: PollingPlanner,
+    private readonly persistence?: DeviceStatePersistence, // Keeps the last known state across restarts
+  ) {
+    // Any fresh status, including verification reads after writes, updates the store
+    this.unsubscribeApi.push(api.onStatus((deviceId, status) => this.ingest(deviceId, status)));
+    this.unsubscribeApi.push(api.onAvailabilityChange(available => this.handleAvailability(available)));
+  }
+
+  /**
+   * Whether the API behind this store is currently reachable
+   */
+  isAvailable(): boolean {
+    return this.api.isAvailable();
+  }
+
+  /**
+   * Latest known state of a device, if it has been fetched or restored
+   */
+  get(deviceId: string): DeviceState | undefined {
+    return this.devices.get(deviceId)?.state;
+  }
+
+  /**
+   * Whether the known state of a device is too old to show as current
+   * The limit grows with the poll interval so slowly polled devices are not always stale;
+   * a device without any state yet is unknown rather than stale.
+   */
+  isStale(deviceId: string): boolean {
+    const state = this.get(deviceId);
+    if (!state) {
+      return false;
+    }
+    return isStateStale(state, Math.max(STATE_STALE_AFTER, 2 * this.pollingPlanner.getInterval(deviceId)));
+  }
+
+  /**
+   * Start tracking a device, seeded with its last saved state
+   */
+  private track(deviceId: string): TrackedDevice {
+    let device = this.devices.get(deviceId);
+    if (device) {
+      return device;
+    }
+
+    device = { listeners: new Set(), stopped: false, notFound: 0 };
+    this.devices.set(deviceId, device);
+
+    const saved = this.persistence?.get(deviceId);
+    if (saved) {
+      device.state = interpretStatus(saved.status, saved.updatedAt, true);
+      const minutes = Math.round((Date.now() - saved.updatedAt) / 60000);
+      const stale = isStateStale(device.state) ? ' (stale until the first poll)' : '';
+      this.log.info(`Restored last known state of device ${deviceId} from ${minutes} minute(s) ago${stale}`);
+    }
+    return device;
+  }
+
+  /**
+   * Listen for events about a device; polling starts with the first subscriber
+   * @returns A function that removes the listener
+   */
+  subscribe(deviceId: string, listener: DeviceStateListener): () => void {
+    const device = this.track(deviceId);
+    device.listeners.add(listener);
+
+    if (device.listeners.size === 1 && !device.timer) {
+      this.startPolling(deviceId, device);
+    }
+
+    return () => {
+      device.listeners.delete(listener);
+      if (device.listeners.size === 0) {
+        this.untrack(deviceId);
+      }
+    };
+  }
+
+  /**
+   * Fetch the current state of a device now
+   * Concurrent callers share one request; subscribers are notified of changes.
+   */
+  async refresh(deviceId: string, priority = RequestPriority.POLL): Promise<DeviceState> {
+    const device = this.devices.get(deviceId);
+    if (device?.refreshing) {
+      return device.refreshing;
+    }
+
+    const refreshing = this.api.getDeviceStatus(deviceId, priority)
+      .then(status => this.ingest(deviceId, status));
+
+    if (device) {
+      device.refreshing = refreshing;
+      refreshing
+        .catch(() => undefined)
+        .finally(() => {
+          device.refreshing = undefined;
+        });
+    }
+    return refreshing;
+  }
+
+  /**
+   * Stop polling a device and forget its listeners
+   */
+  untrack(deviceId: string): void {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return;
+    }
+    this.stopPolling(deviceId, device);
+    device.listeners.clear();
+    this.devices.delete(deviceId);
+  }
+
+  /**
+   * Stop every poller and detach from the API
+   */
+  dispose(): void {
+    for (const deviceId of [...this.devices.keys()]) {
+      this.untrack(deviceId);
+    }
+    this.unsubscribeApi.forEach(unsubscribe => unsubscribe());
+    this.unsubscribeApi.length = 0;
+  }
+
+  /**
+   * Poll a device right away and then at the pace the planner picks
+   */
+  private startPolling(deviceId: string, device: TrackedDevice): void {
+    device.stopped = false;
+    this.pollingPlanner.register(deviceId);
+    this.poll(deviceId, device);
+  }
+
+  private poll(deviceId: string, device: TrackedDevice): void {
+    this.refresh(deviceId)
+      .catch(error => this.handleError(deviceId, device, error))
+      .finally(() => {
+        if (device.stopped) {
+          return;
+        }
+        const interval = this.pollingPlanner.getInterval(deviceId);
+        const delay = device.notFound > 0
+          ? Math.min(interval * Math.pow(2, device.notFound), Math.max(interval, NOT_FOUND_MAX_INTERVAL))
+          : interval;
+        device.timer = setTimeout(() => this.poll(deviceId, device), delay);
+      });
+  }
+
+  private stopPolling(deviceId: string, device: TrackedDevice): void {
+    device.stopped = true;
+    if (device.timer) {
+      clearTimeout(device.timer);
+      device.timer = undefined;
+    }
+    this.pollingPlanner.unregister(deviceId);
+  }
+
+  /**
+   * Interpret a fresh status and notify subscribers of what changed
+   */
+  private ingest(deviceId: string, status: DeviceStatus): DeviceState {
+    const device = this.devices.get(deviceId);
+    if (device?.state && device.state.status === status) {
+      // Already ingested, e.g. a cached status or one announced by the API
+      return device.state;
+    }
+
+    const state = interpretStatus(status);
+    this.persistence?.record(deviceId, status, state.updatedAt);
+    if (!device) {
+      return state;
+    }
+
+    if (device.notFound > 0) {
+      this.log.info(`Device ${deviceId} is reachable again, resuming status updates`);
+      device.notFound = 0;
+    }
+
+    const previous = device.state;
+    device.state = state;
+    this.pollingPlanner.report(deviceId, state.activity);
+
+    const changed = previous
+      ? COMPARED_FIELDS.filter(field => previous[field] !== state[field])
+      : [...COMPARED_FIELDS];
+    this.emit(device, { type: 'state', state, changed });
+    return state;
+  }
+
+  /**
+   * Log a failed poll once for all subscribers, then let them react
+   */
+  private handleError(deviceId: string, device: TrackedDevice, error: unknown): void {
+    if (error instanceof RateLimitError) {
+      // The API layer already pauses requests; just wait for the next poll
+      this.log.debug(`Status update for device ${deviceId} deferred by rate limiting`);
+    } else if (error instanceof RequestDroppedError) {
+      // A newer request for this device superseded the poll
+      this.log.debug(`Status update for device ${deviceId} skipped: ${error.message}`);
+    } else if (error instanceof CircuitOpenError) {
+      // The outage was already reported; subscribers got an availability event
+      this.log.debug(`Status update for device ${deviceId} paused: ${error.message}`);
+    } else if (error instanceof DeviceNotFoundError) {
+      // Often transient; keep trying, less and less often, until discovery drops the device
+      if (device.notFound === 0) {
+        this.log.error(`Device ${deviceId} was not found in your SleepMe account, polling it less often until it is back`);
+      } else {
+        this.log.debug(`Device ${deviceId} still not found (${device.notFound + 1} times in a row)`);
+      }
+      device.notFound++;
+    } else if (error instanceof AuthenticationError) {
+      this.log.error(`Cannot update device ${deviceId}: the API token was rejected`);
+    } else if (error instanceof NetworkError || error instanceof ServerError) {
+      this.log.warn(`SleepMe API unavailable, keeping last known state for device ${deviceId}: ${error.message}`);
+    } else if (error instanceof Error) {
+      this.log.error(`Error updating device status: ${error.message}`);
+    } else {
+      this.log.error(`Unknown error updating device status`);
+    }
+
+    this.emit(device, { type: 'error', error });
+  }
+
+  /**
+   * Tell every subscriber about an outage or recovery, and refresh on recovery
+   */
+  private handleAvailability(available: boolean): void {
+    this.devices.forEach((device, deviceId) => {
+      this.emit(device, { type: 'availability', available });
+      if (available && !device.stopped) {
+        this.refresh(deviceId).catch(error => this.handleError(deviceId, device, error));
+      }
+    });
+  }
+
+  private emit(device: TrackedDevice, event: DeviceStateEvent): void {
+    device.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        this.log.error(`Error in device state listener: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+  }
+}
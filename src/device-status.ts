@@ -0,0 +1,211 @@
+import { MalformedResponseError } from './api-errors.js';
+import { Temperature } from './temperature.js';
+
+/**
+ * Typed model of the payload returned by GET /devices/{id}
+ * Field names mirror the SleepMe API so they can be matched against its docs.
+ */
+export interface DeviceControl {
+  brightness_level?: number; // Display brightness, 0-100
+  display_temperature_unit?: 'c' | 'f';
+  set_temperature_c: number;
+  set_temperature_f?: number;
+  thermal_control_status: string; // 'active' or 'standby'
+  time_zone?: string; // IANA time zone, e.g. 'America/New_York'
+}
+
+export interface DeviceStatusSection {
+  is_connected?: boolean;
+  is_water_low?: boolean;
+  water_level?: number; // Reservoir level in percent
+  water_temperature_c: number;
+  water_temperature_f?: number;
+  humidity?: number; // Relative humidity in percent, not reported by every model
+}
+
+export interface DeviceAbout {
+  firmware_version?: string;
+  ip_address?: string;
+  lan_address?: string;
+  mac_address?: string;
+  model?: string;
+  serial_number?: string;
+}
+
+export interface DeviceStatus {
+  control: DeviceControl;
+  status: DeviceStatusSection;
+  about: DeviceAbout;
+}
+
+export const THERMAL_CONTROL_STATUSES = ['active', 'standby'];
+
+type FieldType = 'number' | 'string' | 'boolean';
+
+interface FieldSpec {
+  type: FieldType;
+  required?: boolean;
+  values?: readonly string[]; // Known values for enum-like strings
+}
+
+type SectionName = keyof DeviceStatus;
+
+/**
+ * Expected shape of each section, used for runtime validation
+ */
+const DEVICE_STATUS_SCHEMA: Record<SectionName, Record<string, FieldSpec>> = {
+  control: {
+    brightness_level: { type: 'number' },
+    display_temperature_unit: { type: 'string', values: ['c', 'f'] },
+    set_temperature_c: { type: 'number', required: true },
+    set_temperature_f: { type: 'number' },
+    thermal_control_status: { type: 'string', required: true, values: THERMAL_CONTROL_STATUSES },
+    time_zone: { type: 'string' },
+  },
+  status: {
+    is_connected: { type: 'boolean' },
+    is_water_low: { type: 'boolean' },
+    water_level: { type: 'number' },
+    water_temperature_c: { type: 'number', required: true },
+    water_temperature_f: { type: 'number' },
+    humidity: { type: 'number' },
+  },
+  about: {
+    firmware_version: { type: 'string' },
+    ip_address: { type: 'string' },
+    lan_address: { type: 'string' },
+    mac_address: { type: 'string' },
+    model: { type: 'string' },
+    serial_number: { type: 'string' },
+  },
+};
+
+/**
+ * Celsius fields that may be derived from their Fahrenheit counterpart
+ */
+const FAHRENHEIT_FALLBACKS: Partial<Record<SectionName, Record<string, string>>> = {
+  control: { set_temperature_c: 'set_temperature_f' },
+  status: { water_temperature_c: 'water_temperature_f' },
+};
+
+export interface ParsedDeviceStatus {
+  status: DeviceStatus;
+  drift: string[]; // Differences from the expected schema that did not prevent parsing
+}
+
+/**
+ * Validate a raw device payload against the model.
+ * Missing or mistyped required fields throw MalformedResponseError; anything
+ * else unexpected is reported as drift so callers can warn about API changes.
+ */
+export function parseDeviceStatus(raw: unknown): ParsedDeviceStatus {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new MalformedResponseError('Device status is not an object');
+  }
+
+  const data = raw as Record<string, unknown>;
+  const drift: string[] = [];
+  const errors: string[] = [];
+  const result: Record<string, Record<string, unknown>> = {};
+
+  for (const key of Object.keys(data)) {
+    if (!(key in DEVICE_STATUS_SCHEMA)) {
+      drift.push(`unexpected section "${key}"`);
+    }
+  }
+
+  for (const sectionName of Object.keys(DEVICE_STATUS_SCHEMA) as SectionName[]) {
+    const schema = DEVICE_STATUS_SCHEMA[sectionName];
+    const section = data[sectionName];
+    const parsed: Record<string, unknown> = {};
+    result[sectionName] = parsed;
+
+    if (section === undefined || section === null) {
+      const required = Object.keys(schema).filter(field => schema[field].required);
+      if (required.length > 0) {
+        errors.push(`missing section "${sectionName}"`);
+      } else {
+        drift.push(`missing section "${sectionName}"`);
+      }
+      continue;
+    }
+
+    if (typeof section !== 'object' || Array.isArray(section)) {
+      errors.push(`section "${sectionName}" is not an object`);
+      continue;
+    }
+
+    const values = section as Record<string, unknown>;
+
+    for (const [field, value] of Object.entries(values)) {
+      const spec = schema[field];
+      const path = `${sectionName}.${field}`;
+
+      if (!spec) {
+        drift.push(`unexpected field "${path}"`);
+        continue;
+      }
+
+      if (value === null || value === undefined) {
+        continue;
+      }
+
+      if (typeof value !== spec.type || (spec.type === 'number' && isNaN(value as number))) {
+        const message = `field "${path}" should be a ${spec.type} but was ${JSON.stringify(value)}`;
+        if (spec.required) {
+          errors.push(message);
+        } else {
+          drift.push(message);
+        }
+        continue;
+      }
+
+      if (spec.values && !spec.values.includes(value as string)) {
+        drift.push(`field "${path}" has unknown value ${JSON.stringify(value)}`);
+      }
+
+      parsed[field] = value;
+    }
+
+    // Derive Celsius from Fahrenheit when only the latter is reported
+    const fallbacks = FAHRENHEIT_FALLBACKS[sectionName] || {};
+    for (const [celsiusField, fahrenheitField] of Object.entries(fallbacks)) {
+      if (parsed[celsiusField] === undefined && typeof parsed[fahrenheitField] === 'number') {
+        parsed[celsiusField] = ((parsed[fahrenheitField] as number) - 32) * 5 / 9;
+        drift.push(`field "${sectionName}.${celsiusField}" missing, derived from ${fahrenheitField}`);
+      }
+    }
+
+    for (const [field, spec] of Object.entries(schema)) {
+      if (spec.required && parsed[field] === undefined && !errors.some(error => error.includes(`"${sectionName}.${field}"`))) {
+        errors.push(`missing field "${sectionName}.${field}"`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new MalformedResponseError(`Invalid device status: ${errors.join('; ')}`);
+  }
+
+  return {
+    status: result as unknown as DeviceStatus,
+    drift,
+  };
+}
+
+/**
+ * Whether the device is actively controlling water temperature
+ */
+export function isDeviceActive(status: DeviceStatus): boolean {
+  return status.control.thermal_control_status !== 'standby';
+}
+
+/**
+ * The device's set point; read from the whole-°F field when reported, since
+ * that is what the device stores and the Celsius field is derived from it
+ */
+export function deviceSetpoint(control: DeviceControl): Temperature {
+  return typeof control.set_temperature_f === 'number'
+    ? Temperature.fromFahrenheit(control.set_temperature_f)
+    : Temperature.fromCelsius(control.set_temperature_c);
+}
@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import { Logger } from 'homebridge';
+import { Redactor } from './redaction.js';
 
 /**
  * SleepMe Diagnostic Logger
@@ -16,7 +17,8 @@ export class DiagnosticLogger {
   constructor(
     private readonly log: Logger,
     storagePath: string = '',
-    enabled: boolean = false
+    enabled: boolean = false,
+    private readonly redactor?: Redactor // Masks tokens and device IDs before anything is written
   ) {
     this.enabled = enabled;
     
@@ -49,12 +51,13 @@ export class DiagnosticLogger {
     
     // Log request data if present
     if (data) {
-      logEntry += `Request Data: ${JSON.stringify(data, null, 2)}\n`;
+      logEntry += `Request Data: ${JSON.stringify(this.redactor ? this.redactor.redactValue(data) : data, null, 2)}\n`;
     }
     
     // Log response if present
     if (response) {
-      const responseStr = typeof response === 'object' ? JSON.stringify(response, null, 2) : String(response);
+      const redacted = this.redactor ? this.redactor.redactValue(response) : response;
+      const responseStr = typeof redacted === 'object' ? JSON.stringify(redacted, null, 2) : String(redacted);
       logEntry += `Response: ${responseStr}\n`;
     }
     
@@ -188,7 +191,8 @@ export class DiagnosticLogger {
     }
     
     try {
-      this.logStream.write(message + '\n');
+      const text = this.redactor ? this.redactor.redact(message) : message;
+      this.logStream.write(text + '\n');
     } catch (error) {
       this.log.error(`Failed to write to diagnostic log: ${error}`);
       this.enabled = false;
@@ -0,0 +1,22 @@
+import { API, HapStatusError } from 'homebridge';
+import { RateLimitError } from './api-errors.js';
+
+/**
+ * Error that makes the Home app show "No Response"
+ */
+export function noResponse(api: API): HapStatusError {
+  return new api.hap.HapStatusError(api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+}
+
+/**
+ * HAP status for a failed write: busy while rate limited, otherwise "No Response"
+ */
+export function writeFailureStatus(api: API, error: unknown): HapStatusError {
+  if (error instanceof api.hap.HapStatusError) {
+    return error;
+  }
+  if (error instanceof RateLimitError) {
+    return new api.hap.HapStatusError(api.hap.HAPStatus.RESOURCE_BUSY);
+  }
+  return noResponse(api);
+}
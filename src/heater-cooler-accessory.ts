@@ -0,0 +1,441 @@
+import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
+import { SleepMePlatform } from './platform.js';
+import { SleepMeApi } from './sleepme-api.js';
+import { DeviceWriteCoalescer, PendingDeviceWrite } from './write-coalescer.js';
+import { DeviceState, DeviceStateEvent, DeviceStateStore } from './device-state-store.js';
+import { DEVICE_MAX_TEMPERATURE, DEVICE_MIN_TEMPERATURE, DeviceOptions } from './device-config.js';
+import { AccessoryGuard } from './accessory-guard.js';
+import {
+  ThermalActivity,
+  ThermalMode,
+  ThermalThresholds,
+  setpointForThresholds,
+  thermalActivity,
+  thermalMode,
+  thresholdsForSetpoint,
+} from './thermal-mapping.js';
+import { DeviceTemperatureProfile } from './temperature-profile.js';
+import { MaxModeSwitches } from './max-mode-switches.js';
+
+/**
+ * SleepMe HeaterCooler Accessory
+ * Exposes a device as a HeaterCooler with an Active switch, real idle/heating/cooling
+ * states and a heating/cooling threshold band instead of a single target temperature
+ */
+export class HeaterCoolerAccessory {
+  private service: Service;
+  private active = false;
+  private activity: ThermalActivity = 'off';
+  private mode: ThermalMode; // Last chosen of heat, cool or auto; the device itself cannot tell them apart
+  private thresholds: ThermalThresholds;
+  private pendingMode?: ThermalMode; // Sent but not yet confirmed; later changes build on it
+  private pendingThresholds?: ThermalThresholds; // Sent but not yet confirmed, e.g. while both thresholds change at once
+  private currentTemperature = 21; // Default value
+  private deviceId: string;
+  private firmwareVersion = 'Unknown';
+  private writeCoalescer: DeviceWriteCoalescer;
+  private readonly guard: AccessoryGuard; // "No Response" and failed write handling
+  private unsubscribeState?: () => void;
+  private readonly options: DeviceOptions;
+  private readonly profile: DeviceTemperatureProfile; // Model, range and step of the thresholds
+  private readonly maxModeSwitches: MaxModeSwitches;
+
+  private readonly WRITE_DEBOUNCE = 1000; // milliseconds
+  private readonly DEFAULT_THRESHOLDS: ThermalThresholds = { heating: 20, cooling: 24 };
+
+  constructor(
+    private readonly platform: SleepMePlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly apiService: SleepMeApi,
+    private readonly stateStore: DeviceStateStore,
+  ) {
+    this.deviceId = this.accessory.context.device?.id || '';
+
+    if (!this.deviceId) {
+      this.platform.log.error(`HeaterCoolerAccessory: Missing device ID for ${this.accessory.displayName}`);
+    }
+
+    this.options = this.platform.getDeviceOptions(this.deviceId);
+    this.profile = new DeviceTemperatureProfile(this.platform, this.accessory, this.deviceId, this.options);
+
+    // The device does not store the band or the mode, so keep them with the accessory across restarts
+    this.mode = this.accessory.context.mode ?? 'auto';
+    this.thresholds = {
+      heating: this.toHomeKitTemperature(this.accessory.context.thresholds?.heating ?? this.DEFAULT_THRESHOLDS.heating),
+      cooling: this.toHomeKitTemperature(this.accessory.context.thresholds?.cooling ?? this.DEFAULT_THRESHOLDS.cooling),
+    };
+
+    // Merge rapid HomeKit changes (e.g. both thresholds dragged at once) into a single update
+    this.writeCoalescer = new DeviceWriteCoalescer(
+      this.apiService,
+      this.deviceId,
+      this.platform.log,
+      this.WRITE_DEBOUNCE,
+    );
+
+    // Show "No Response" in the Home app while the API is unreachable
+    this.guard = new AccessoryGuard(this.platform, this.accessory.displayName, this.deviceId, this.stateStore);
+
+    // Set accessory information
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Sleepme Inc.')
+      .setCharacteristic(this.platform.Characteristic.Model, this.profile.capabilities.modelName)
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.UUID);
+
+    const deviceName = this.options.name || this.accessory.context.device?.name || this.accessory.displayName;
+
+    this.service = this.accessory.getService(this.platform.Service.HeaterCooler) ||
+      this.accessory.addService(this.platform.Service.HeaterCooler, deviceName);
+
+    this.service.setCharacteristic(this.platform.Characteristic.Name, deviceName);
+
+    this.service.getCharacteristic(this.platform.Characteristic.Active)
+      .onSet(this.setActive.bind(this))
+      .onGet(this.getActive.bind(this));
+
+    this.service.getCharacteristic(this.platform.Characteristic.CurrentHeaterCoolerState)
+      .onGet(this.getCurrentHeaterCoolerState.bind(this));
+
+    this.service.getCharacteristic(this.platform.Characteristic.TargetHeaterCoolerState)
+      .onSet(this.setTargetHeaterCoolerState.bind(this))
+      .onGet(this.getTargetHeaterCoolerState.bind(this));
+
+    this.service.getCharacteristic(this.platform.Characteristic.CurrentTemperature)
+      .onGet(this.getCurrentTemperature.bind(this));
+
+    this.setThresholdProps();
+    this.service.getCharacteristic(this.platform.Characteristic.HeatingThresholdTemperature)
+      .onSet(value => this.setThreshold('heating', value))
+      .onGet(() => this.getThreshold('heating'));
+
+    this.service.getCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature)
+      .onSet(value => this.setThreshold('cooling', value))
+      .onGet(() => this.getThreshold('cooling'));
+
+    const displayUnits = this.options.unit === 'C'
+      ? this.platform.Characteristic.TemperatureDisplayUnits.CELSIUS
+      : this.platform.Characteristic.TemperatureDisplayUnits.FAHRENHEIT;
+
+    this.service.getCharacteristic(this.platform.Characteristic.TemperatureDisplayUnits)
+      .updateValue(displayUnits);
+
+    this.updateThresholdCharacteristics();
+    this.service.updateCharacteristic(this.platform.Characteristic.TargetHeaterCoolerState, this.toTargetState(this.mode));
+
+    // Optional Max Cool / Max Heat switches, written through the same coalescer
+    this.maxModeSwitches = new MaxModeSwitches(
+      this.platform,
+      this.accessory,
+      deviceName,
+      this.writeCoalescer,
+      this.stateStore,
+      this.guard,
+    );
+
+    // Follow the shared device state, starting from the last known state saved before a restart
+    if (this.deviceId) {
+      this.unsubscribeState = this.stateStore.subscribe(this.deviceId, event => this.handleStateEvent(event));
+      const state = this.stateStore.get(this.deviceId);
+      if (state) {
+        this.applyState(state);
+      }
+    }
+  }
+
+  /**
+   * Stop following the device, e.g. when the accessory is removed
+   */
+  dispose(): void {
+    this.unsubscribeState?.();
+    this.unsubscribeState = undefined;
+    this.writeCoalescer.dispose();
+  }
+
+  async getActive(): Promise<CharacteristicValue> {
+    this.guard.assertResponsive();
+    return this.active ? this.platform.Characteristic.Active.ACTIVE : this.platform.Characteristic.Active.INACTIVE;
+  }
+
+  async getCurrentHeaterCoolerState(): Promise<CharacteristicValue> {
+    this.guard.assertResponsive();
+    return this.toCurrentState(this.activity);
+  }
+
+  async getTargetHeaterCoolerState(): Promise<CharacteristicValue> {
+    this.guard.assertResponsive();
+    return this.toTargetState(this.pendingMode ?? this.mode);
+  }
+
+  async getCurrentTemperature(): Promise<CharacteristicValue> {
+    this.guard.assertResponsive();
+    return this.currentTemperature;
+  }
+
+  async getThreshold(which: keyof ThermalThresholds): Promise<CharacteristicValue> {
+    this.guard.assertResponsive();
+    return (this.pendingThresholds ?? this.thresholds)[which];
+  }
+
+  /**
+   * Turn the device on at the set point for the current mode and band, or off
+   */
+  async setActive(value: CharacteristicValue): Promise<void> {
+    const active = value === this.platform.Characteristic.Active.ACTIVE;
+    this.platform.log.info(`Turning device ${this.deviceId} ${active ? 'ON' : 'OFF'}`);
+
+    await this.commit(active ? 'turning device on' : 'turning device off', () => {
+      this.active = active;
+    }, active ? { power: 'on', temperature: this.setpoint() } : { power: 'off' });
+  }
+
+  /**
+   * Switch between heat, cool and auto; this only moves the set point
+   */
+  async setTargetHeaterCoolerState(value: CharacteristicValue): Promise<void> {
+    const mode = this.fromTargetState(value as number);
+    this.platform.log.info(`Setting mode to ${mode.toUpperCase()} for device ${this.deviceId}`);
+
+    this.pendingMode = mode;
+    await this.commit('setting mode', () => {
+      this.mode = this.pendingMode ?? mode;
+      if (this.pendingMode === mode) {
+        this.pendingMode = undefined;
+      }
+    }, { temperature: this.setpointFor(mode, this.pendingThresholds ?? this.thresholds) });
+  }
+
+  /**
+   * Move one end of the band, pushing the other along so heating never exceeds cooling
+   */
+  async setThreshold(which: keyof ThermalThresholds, value: CharacteristicValue): Promise<void> {
+    // HomeKit often sends both thresholds at once, so build on a band that is still being sent
+    const temperature = this.toHomeKitTemperature(value as number);
+    const band = this.pendingThresholds ?? this.thresholds;
+    const thresholds = which === 'heating'
+      ? { heating: temperature, cooling: Math.max(band.cooling, temperature) }
+      : { heating: Math.min(band.heating, temperature), cooling: temperature };
+    this.platform.log.info(
+      `Setting thresholds to ${thresholds.heating}-${thresholds.cooling}°C for device ${this.deviceId}`,
+    );
+
+    this.pendingThresholds = thresholds;
+    await this.commit(`setting ${which} threshold`, () => {
+      this.thresholds = this.pendingThresholds ?? thresholds;
+      if (this.pendingThresholds === thresholds) {
+        this.pendingThresholds = undefined;
+      }
+    }, { temperature: this.setpointFor(this.pendingMode ?? this.mode, thresholds) });
+  }
+
+  /**
+   * Send a change and record it locally only once the device accepted it
+   */
+  private async commit(action: string, apply: () => void, change: PendingDeviceWrite): Promise<void> {
+    try {
+      if (!this.deviceId) {
+        throw new Error(`Missing device ID, cannot complete ${action}`);
+      }
+      await this.writeCoalescer.write(change);
+      apply();
+      this.persist();
+      this.updateThresholdCharacteristics();
+    } catch (error) {
+      this.guard.handleWriteError(action, error, () => this.rollback());
+    }
+  }
+
+  /**
+   * Show the last confirmed state again after a failed write
+   */
+  private rollback(): void {
+    this.pendingMode = undefined;
+    this.pendingThresholds = undefined;
+
+    const state = this.stateStore.get(this.deviceId);
+    if (state) {
+      this.applyState(state);
+      return;
+    }
+
+    // Nothing confirmed yet; local values only change after a successful write
+    this.service.updateCharacteristic(
+      this.platform.Characteristic.Active,
+      this.active ? this.platform.Characteristic.Active.ACTIVE : this.platform.Characteristic.Active.INACTIVE,
+    );
+    this.service.updateCharacteristic(this.platform.Characteristic.TargetHeaterCoolerState, this.toTargetState(this.mode));
+    this.updateThresholdCharacteristics();
+  }
+
+  /**
+   * React to events from the device state store
+   */
+  private handleStateEvent(event: DeviceStateEvent): void {
+    switch (event.type) {
+      case 'state':
+        this.applyState(event.state);
+        break;
+      case 'availability':
+        this.guard.setApiAvailable(
+          event.available, this.service, this.platform.Characteristic.CurrentTemperature, this.currentTemperature);
+        break;
+      // Errors are logged by the store; the last known state stays in place
+    }
+  }
+
+  /**
+   * Both thresholds share the model's range and step, narrowed by the device's configured range
+   */
+  private setThresholdProps(): void {
+    const props = this.profile.props();
+    this.service.getCharacteristic(this.platform.Characteristic.HeatingThresholdTemperature).setProps(props);
+    this.service.getCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature).setProps(props);
+  }
+
+  /**
+   * Pick up a model identified from the status payload after the accessory was set up
+   */
+  private updateCapabilities(): void {
+    if (!this.profile.refresh()) {
+      return;
+    }
+    this.setThresholdProps();
+
+    // Keep the band inside the new range
+    this.thresholds = {
+      heating: this.toHomeKitTemperature(this.thresholds.heating),
+      cooling: this.toHomeKitTemperature(this.thresholds.cooling),
+    };
+    this.persist();
+  }
+
+  /**
+   * Update HomeKit from the latest device state
+   */
+  private applyState(state: DeviceState): void {
+    this.updateCapabilities();
+
+    if (state.firmwareVersion && state.firmwareVersion !== this.firmwareVersion) {
+      this.firmwareVersion = state.firmwareVersion;
+      this.accessory.getService(this.platform.Service.AccessoryInformation)?.
+        updateCharacteristic(this.platform.Characteristic.FirmwareRevision, this.firmwareVersion);
+    }
+
+    // The offset corrects the reported water temperature
+    this.currentTemperature = this.toHomeKitTemperature(
+      state.currentTemperature + this.options.temperatureOffset,
+      DEVICE_MIN_TEMPERATURE,
+      DEVICE_MAX_TEMPERATURE,
+    );
+    this.active = state.active;
+    this.activity = thermalActivity(state);
+
+    const mode = thermalMode(state, this.mode);
+    if (mode !== 'off') {
+      this.mode = mode;
+    }
+
+    // Fit the band around a set point changed elsewhere (the SleepMe app, a schedule);
+    // a max mode has no set point to fit
+    if (state.active && !state.maxMode) {
+      const setpoint = this.toHomeKitTemperature(state.targetTemperature);
+      const thresholds = thresholdsForSetpoint(this.mode, setpoint, this.thresholds);
+      if (thresholds.heating !== this.thresholds.heating || thresholds.cooling !== this.thresholds.cooling) {
+        this.platform.log.debug(
+          `Set point ${setpoint}°C changed outside HomeKit, thresholds now ${thresholds.heating}-${thresholds.cooling}°C`,
+        );
+        this.thresholds = thresholds;
+        this.persist();
+      }
+    }
+
+    this.service.updateCharacteristic(this.platform.Characteristic.CurrentTemperature, this.currentTemperature);
+    this.service.updateCharacteristic(
+      this.platform.Characteristic.Active,
+      this.active ? this.platform.Characteristic.Active.ACTIVE : this.platform.Characteristic.Active.INACTIVE,
+    );
+    this.service.updateCharacteristic(this.platform.Characteristic.CurrentHeaterCoolerState, this.toCurrentState(this.activity));
+    this.service.updateCharacteristic(this.platform.Characteristic.TargetHeaterCoolerState, this.toTargetState(this.mode));
+    this.updateThresholdCharacteristics();
+    this.maxModeSwitches.applyState(state);
+
+    this.platform.log.debug(
+      `Updated device status: Current=${this.currentTemperature.toFixed(1)}°C, ` +
+      `Thresholds=${this.thresholds.heating}-${this.thresholds.cooling}°C, ` +
+      `Mode=${this.mode.toUpperCase()}, Activity=${this.activity.toUpperCase()}, ` +
+      `ThermalStatus=${state.status.control.thermal_control_status}`,
+    );
+  }
+
+  /**
+   * Set point the device should run at for the current mode and band
+   */
+  private setpoint(): number {
+    return this.setpointFor(this.pendingMode ?? this.mode, this.pendingThresholds ?? this.thresholds);
+  }
+
+  private setpointFor(mode: ThermalMode, thresholds: ThermalThresholds): number {
+    return this.toHomeKitTemperature(setpointForThresholds(mode, this.currentTemperature, thresholds));
+  }
+
+  private updateThresholdCharacteristics(): void {
+    this.service.updateCharacteristic(this.platform.Characteristic.HeatingThresholdTemperature, this.thresholds.heating);
+    this.service.updateCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature, this.thresholds.cooling);
+  }
+
+  private persist(): void {
+    this.accessory.context.mode = this.mode;
+    this.accessory.context.thresholds = { ...this.thresholds };
+  }
+
+  /**
+   * Convert between the shared thermal mapping and HomeKit's HeaterCooler states
+   */
+  private toCurrentState(activity: ThermalActivity): number {
+    const { CurrentHeaterCoolerState } = this.platform.Characteristic;
+    switch (activity) {
+      case 'heating':
+        return CurrentHeaterCoolerState.HEATING;
+      case 'cooling':
+        return CurrentHeaterCoolerState.COOLING;
+      case 'idle':
+        return CurrentHeaterCoolerState.IDLE;
+      default:
+        return CurrentHeaterCoolerState.INACTIVE;
+    }
+  }
+
+  private toTargetState(mode: ThermalMode): number {
+    const { TargetHeaterCoolerState } = this.platform.Characteristic;
+    switch (mode) {
+      case 'heat':
+        return TargetHeaterCoolerState.HEAT;
+      case 'cool':
+        return TargetHeaterCoolerState.COOL;
+      default:
+        return TargetHeaterCoolerState.AUTO;
+    }
+  }
+
+  private fromTargetState(state: number): ThermalMode {
+    const { TargetHeaterCoolerState } = this.platform.Characteristic;
+    switch (state) {
+      case TargetHeaterCoolerState.HEAT:
+        return 'heat';
+      case TargetHeaterCoolerState.COOL:
+        return 'cool';
+      default:
+        return 'auto';
+    }
+  }
+
+  /**
+   * Clamp a Celsius value to a range, by default the one offered for the device,
+   * round it to what the device holds in its unit and convert it for HomeKit
+   */
+  private toHomeKitTemperature(celsius: number, min?: number, max?: number): number {
+    if (typeof celsius !== 'number' || isNaN(celsius)) {
+      return this.thresholds?.heating ?? this.DEFAULT_THRESHOLDS.heating;
+    }
+    return this.profile.toDevice(celsius, min, max).toHomeKit(this.options.unit);
+  }
+}
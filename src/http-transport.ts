@@ -0,0 +1,109 @@
+import axios from 'axios';
+
+/**
+ * Default SleepMe developer API endpoint
+ */
+export const DEFAULT_BASE_URL = 'https://api.developer.sleep.me/v1';
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+
+/**
+ * A single HTTP request as issued by SleepMeApi
+ */
+export interface HttpRequest {
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  data?: unknown;
+  timeout?: number; // milliseconds
+}
+
+/**
+ * A transport-neutral HTTP response
+ */
+export interface HttpResponse<T = any> {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  data: T;
+}
+
+/**
+ * Error raised by a transport when a request fails.
+ * `response` is set when the server answered with a non-2xx status,
+ * otherwise the request never got a response (network error, timeout, ...).
+ */
+export class TransportError extends Error {
+  constructor(
+    message: string,
+    public readonly request: HttpRequest,
+    public readonly response?: HttpResponse,
+    public readonly code?: string,
+  ) {
+    super(message);
+    this.name = 'TransportError';
+  }
+}
+
+/**
+ * Pluggable HTTP transport used by SleepMeApi.
+ * Implementations must resolve for 2xx responses and reject with a
+ * TransportError for anything else.
+ */
+export interface HttpTransport {
+  request<T = any>(request: HttpRequest): Promise<HttpResponse<T>>;
+}
+
+/**
+ * Default transport backed by axios
+ */
+export class AxiosTransport implements HttpTransport {
+  async request<T = any>(request: HttpRequest): Promise<HttpResponse<T>> {
+    try {
+      const response = await axios({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        data: request.data,
+        timeout: request.timeout,
+      });
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers: this.normalizeHeaders(response.headers),
+        data: response.data as T,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const response: HttpResponse | undefined = error.response
+          ? {
+            status: error.response.status,
+            statusText: error.response.statusText,
+            headers: this.normalizeHeaders(error.response.headers),
+            data: error.response.data,
+          }
+          : undefined;
+        throw new TransportError(error.message, request, response, error.code);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Flatten axios headers into a plain lower-cased string map
+   */
+  private normalizeHeaders(headers: unknown): Record<string, string> {
+    const result: Record<string, string> = {};
+    if (!headers || typeof headers !== 'object') {
+      return result;
+    }
+
+    for (const [key, value] of Object.entries(headers as Record<string, unknown>)) {
+      if (value !== undefined && value !== null) {
+        result[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+      }
+    }
+    return result;
+  }
+}
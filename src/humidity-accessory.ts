@@ -1,6 +1,7 @@
 import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
 import { SleepMePlatform } from './platform.js';
-import { SleepMeApi } from './sleepme-api.js';
+import { DeviceState, DeviceStateEvent, DeviceStateStore } from './device-state-store.js';
+import { AccessoryGuard } from './accessory-guard.js';
 
 /**
  * SleepMe Humidity Sensor Accessory
@@ -8,16 +9,19 @@ import { SleepMeApi } from './sleepme-api.js';
  */
 export class HumidityAccessory {
   private service: Service;
-  private batteryService: Service; // Added battery service for low water level
+  private batteryService?: Service; // Battery service for the water level, unless disabled for the device
   private currentHumidity = 0;
   private lowWaterDetected = false;
+  private waterLevel?: number; // Reservoir level in percent, when the device reports it
   private deviceId: string;
-  private isUpdating = false;
+  private readonly guard: AccessoryGuard; // "No Response" handling
+  private modelName: string; // From the model's capability profile
+  private unsubscribeState?: () => void;
 
   constructor(
     private readonly platform: SleepMePlatform,
     private readonly accessory: PlatformAccessory,
-    private readonly apiService: SleepMeApi,
+    private readonly stateStore: DeviceStateStore,
   ) {
     this.deviceId = this.accessory.context.device?.id || '';
 
@@ -26,9 +30,10 @@ export class HumidityAccessory {
     }
 
     // Set up the accessory information
+    this.modelName = this.platform.getDeviceCapabilities(this.deviceId).modelName;
     this.accessory.getService(this.platform.Service.AccessoryInformation)!
       .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Sleepme Inc.')
-      .setCharacteristic(this.platform.Characteristic.Model, 'ChiliPad Humidity Sensor')
+      .setCharacteristic(this.platform.Characteristic.Model, `${this.modelName} Humidity Sensor`)
       .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.UUID);
 
     // Make sure we're using a HumiditySensor service, not Thermostat
@@ -43,57 +48,88 @@ export class HumidityAccessory {
     this.service = this.accessory.getService(this.platform.Service.HumiditySensor) || 
       this.accessory.addService(this.platform.Service.HumiditySensor, `${accessory.displayName}`);
 
-    // Set up the battery service (to represent water level)
-    this.batteryService = this.accessory.getService(this.platform.Service.Battery) ||
-      this.accessory.addService(this.platform.Service.Battery, `${accessory.displayName} Water Level`);
+    // Set up the battery service (to represent water level) if enabled for this device
+    const existingBattery = this.accessory.getService(this.platform.Service.Battery);
+    if (this.platform.getDeviceOptions(this.deviceId).services.includes('waterLevel')) {
+      this.batteryService = existingBattery ||
+        this.accessory.addService(this.platform.Service.Battery, `${accessory.displayName} Water Level`);
 
-    // Configure the battery service
-    this.batteryService.setCharacteristic(this.platform.Characteristic.Name, `${accessory.displayName} Water Level`);
+      // Configure the battery service
+      this.batteryService.setCharacteristic(this.platform.Characteristic.Name, `${accessory.displayName} Water Level`);
+    } else if (existingBattery) {
+      this.platform.log.debug('Removing water level service disabled in the device config');
+      this.accessory.removeService(existingBattery);
+    }
     
     // Register handlers for humidity characteristic
     this.service.getCharacteristic(this.platform.Characteristic.CurrentRelativeHumidity)
       .onGet(this.getCurrentHumidity.bind(this));
 
+    // Report a fault and "No Response" while the API is unreachable
+    this.guard = new AccessoryGuard(this.platform, this.accessory.displayName, this.deviceId, this.stateStore);
+    this.service.getCharacteristic(this.platform.Characteristic.StatusFault)
+      .onGet(() => this.getStatusFault());
+
     // Register handlers for battery characteristics (representing water level)
-    this.batteryService.getCharacteristic(this.platform.Characteristic.BatteryLevel)
-      .onGet(this.getWaterLevel.bind(this));
-      
-    this.batteryService.getCharacteristic(this.platform.Characteristic.StatusLowBattery)
-      .onGet(this.getLowWaterStatus.bind(this));
-      
-    this.batteryService.getCharacteristic(this.platform.Characteristic.ChargingState)
-      .onGet(() => this.platform.Characteristic.ChargingState.NOT_CHARGING);
+    if (this.batteryService) {
+      this.batteryService.getCharacteristic(this.platform.Characteristic.BatteryLevel)
+        .onGet(this.getWaterLevel.bind(this));
+        
+      this.batteryService.getCharacteristic(this.platform.Characteristic.StatusLowBattery)
+        .onGet(this.getLowWaterStatus.bind(this));
+        
+      this.batteryService.getCharacteristic(this.platform.Characteristic.ChargingState)
+        .onGet(() => this.platform.Characteristic.ChargingState.NOT_CHARGING);
+    }
 
-    // Initialize and set up polling if we have a valid device ID
+    // Follow the shared device state instead of polling on our own,
+    // starting from the last known state saved before a restart
     if (this.deviceId) {
-      this.updateSensorData()
-        .catch(error => this.platform.log.error(`Error initializing humidity sensor: ${error}`));
-
-      // Set up periodic polling (60 seconds)
-      setInterval(() => {
-        this.updateSensorData()
-          .catch(error => this.platform.log.error(`Error updating humidity sensor: ${error}`));
-      }, 60000);
+      this.unsubscribeState = this.stateStore.subscribe(this.deviceId, event => this.handleStateEvent(event));
+      const state = this.stateStore.get(this.deviceId);
+      if (state) {
+        this.applyState(state);
+      }
     }
   }
 
+  /**
+   * Stop following the device, e.g. when the accessory is removed
+   */
+  dispose(): void {
+    this.unsubscribeState?.();
+    this.unsubscribeState = undefined;
+  }
+
   /**
    * Get the current humidity value
    */
   async getCurrentHumidity(): Promise<CharacteristicValue> {
+    // "No Response" while the API is down or the last reading is too old
+    this.guard.assertResponsive();
     this.platform.log.debug(`Returning current humidity: ${this.currentHumidity}%`);
     return this.currentHumidity;
   }
   
   /**
    * Get water level (simulated as battery level, 0-100%)
-   * Returns 100% if no low water alert, 10% if low water detected
    */
   async getWaterLevel(): Promise<CharacteristicValue> {
-    const level = this.lowWaterDetected ? 10 : 100;
+    const level = this.getBatteryLevel();
     this.platform.log.debug(`Returning water level: ${level}%`);
     return level;
   }
+
+  /**
+   * Battery level representing the water reservoir
+   * Uses the reported level when available, otherwise 10% if low water detected and 100% if not
+   */
+  private getBatteryLevel(): number {
+    if (this.waterLevel !== undefined) {
+      return this.waterLevel;
+    }
+    return this.lowWaterDetected ? 10 : 100;
+  }
   
   /**
    * Get low water status (represented as low battery in HomeKit)
@@ -108,75 +144,93 @@ export class HumidityAccessory {
   }
 
   /**
-   * Update the sensor data from the device (both humidity and water level)
+   * StatusFault value for the current API availability
    */
-  async updateSensorData(): Promise<void> {
-    if (this.isUpdating || !this.deviceId) {
-      return;
+  private getStatusFault(): number {
+    return this.guard.isApiAvailable()
+      ? this.platform.Characteristic.StatusFault.NO_FAULT
+      : this.platform.Characteristic.StatusFault.GENERAL_FAULT;
+  }
+
+  /**
+   * Flag the sensor as faulted during an API outage; the store refreshes on recovery
+   */
+  private setApiAvailable(available: boolean): void {
+    this.guard.setApiAvailable(
+      available, this.service, this.platform.Characteristic.CurrentRelativeHumidity, this.currentHumidity);
+    this.service.updateCharacteristic(this.platform.Characteristic.StatusFault, this.getStatusFault());
+  }
+
+  /**
+   * React to events from the device state store
+   */
+  private handleStateEvent(event: DeviceStateEvent): void {
+    switch (event.type) {
+      case 'state':
+        this.applyState(event.state);
+        break;
+      case 'availability':
+        this.setApiAvailable(event.available);
+        break;
+      // Errors are logged by the store; the last known values stay in place
     }
+  }
 
-    this.isUpdating = true;
-    try {
-      this.platform.log.debug(`Updating sensor data for device ${this.deviceId}`);
-      const deviceStatus = await this.apiService.getDeviceStatus(this.deviceId);
-      
-      if (!deviceStatus) {
-        this.platform.log.error(`Failed to get status for device ${this.deviceId}`);
-        return;
-      }
+  /**
+   * Update the sensor data from the device state (both humidity and water level)
+   */
+  private applyState(state: DeviceState): void {
+    // Pick up a model identified from the status payload after the accessory was set up
+    const { modelName } = this.platform.getDeviceCapabilities(this.deviceId);
+    if (modelName !== this.modelName) {
+      this.modelName = modelName;
+      this.accessory.getService(this.platform.Service.AccessoryInformation)?.
+        updateCharacteristic(this.platform.Characteristic.Model, `${modelName} Humidity Sensor`);
+    }
 
-      // Check if humidity is available in device status
-      if (deviceStatus["status.humidity"] !== undefined) {
-        const newHumidity = deviceStatus["status.humidity"];
-        
-        // Only update if changed
-        if (newHumidity !== this.currentHumidity) {
-          this.currentHumidity = newHumidity;
-          
-          // Update the characteristic
-          this.service.updateCharacteristic(
-            this.platform.Characteristic.CurrentRelativeHumidity, 
-            this.currentHumidity
-          );
-          
-          this.platform.log.debug(`Updated humidity to ${this.currentHumidity}%`);
-        }
-      } else {
-        this.platform.log.debug('Humidity data not available in device status');
-      }
-      
-      // Check for water level status
-      // Assuming the API returns a water level warning flag or status
-      const waterWarning = deviceStatus["status.water_warning"] === true || 
-                          deviceStatus["status.water_level_low"] === true ||
-                          deviceStatus["status.water_level"] === "low";
-      
-      if (waterWarning !== this.lowWaterDetected) {
-        this.lowWaterDetected = waterWarning;
-        
-        // Update battery characteristics
-        this.batteryService.updateCharacteristic(
-          this.platform.Characteristic.BatteryLevel,
-          this.lowWaterDetected ? 10 : 100
-        );
+    // Check if humidity is available in device status
+    if (state.humidity !== undefined) {
+      // Only update if changed
+      if (state.humidity !== this.currentHumidity) {
+        this.currentHumidity = state.humidity;
         
-        this.batteryService.updateCharacteristic(
-          this.platform.Characteristic.StatusLowBattery,
-          this.lowWaterDetected 
-            ? this.platform.Characteristic.StatusLowBattery.BATTERY_LEVEL_LOW
-            : this.platform.Characteristic.StatusLowBattery.BATTERY_LEVEL_NORMAL
+        // Update the characteristic
+        this.service.updateCharacteristic(
+          this.platform.Characteristic.CurrentRelativeHumidity, 
+          this.currentHumidity
         );
         
-        this.platform.log.info(`Updated water level status: ${this.lowWaterDetected ? 'LOW' : 'NORMAL'}`);
+        this.platform.log.debug(`Updated humidity to ${this.currentHumidity}%`);
       }
-    } catch (error) {
-      if (error instanceof Error) {
-        this.platform.log.error(`Error updating sensor data: ${error.message}`);
-      } else {
-        this.platform.log.error(`Unknown error updating sensor data`);
-      }
-    } finally {
-      this.isUpdating = false;
+    } else {
+      this.platform.log.debug('Humidity data not available in device status');
+    }
+    
+    if (state.waterLevel !== undefined && state.waterLevel !== this.waterLevel) {
+      this.waterLevel = state.waterLevel;
+      this.batteryService?.updateCharacteristic(
+        this.platform.Characteristic.BatteryLevel,
+        this.getBatteryLevel()
+      );
+    }
+    
+    if (state.waterLow !== this.lowWaterDetected) {
+      this.lowWaterDetected = state.waterLow;
+      
+      // Update battery characteristics
+      this.batteryService?.updateCharacteristic(
+        this.platform.Characteristic.BatteryLevel,
+        this.getBatteryLevel()
+      );
+      
+      this.batteryService?.updateCharacteristic(
+        this.platform.Characteristic.StatusLowBattery,
+        this.lowWaterDetected 
+          ? this.platform.Characteristic.StatusLowBattery.BATTERY_LEVEL_LOW
+          : this.platform.Characteristic.StatusLowBattery.BATTERY_LEVEL_NORMAL
+      );
+      
+      this.platform.log.info(`Updated water level status: ${this.lowWaterDetected ? 'LOW' : 'NORMAL'}`);
     }
   }
-}
\ No newline at end of file
+}
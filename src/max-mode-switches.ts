@@ -0,0 +1,126 @@
+import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
+import { SleepMePlatform } from './platform.js';
+import { DeviceWriteCoalescer } from './write-coalescer.js';
+import { DeviceState, DeviceStateStore } from './device-state-store.js';
+import { AccessoryGuard } from './accessory-guard.js';
+import { MAX_MODES, MaxMode, describeTarget } from './max-mode.js';
+
+/**
+ * Optional Max Cool and Max Heat switches added to a device's accessory.
+ * At most one is on; turning it off returns to the last normal set point.
+ */
+export class MaxModeSwitches {
+  private readonly services = new Map<MaxMode, Service>();
+  private readonly deviceId: string;
+  private maxMode?: MaxMode; // Max mode the device is running in
+  private lastSetpoint?: number; // Last set point outside a max mode (Celsius)
+
+  constructor(
+    private readonly platform: SleepMePlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly deviceName: string,
+    private readonly writeCoalescer: DeviceWriteCoalescer, // Shared with the accessory so changes merge
+    private readonly stateStore: DeviceStateStore,
+    private readonly guard: AccessoryGuard, // Shared with the accessory
+  ) {
+    this.deviceId = this.accessory.context.device?.id || '';
+    this.configure();
+  }
+
+  /**
+   * Update the switches from the latest device state
+   */
+  applyState(state: DeviceState): void {
+    // A model identified from its status may not support max modes after all
+    this.configure();
+
+    this.maxMode = state.active ? state.maxMode : undefined;
+    if (!state.maxMode) {
+      this.lastSetpoint = state.targetTemperature;
+    }
+
+    for (const [mode, service] of this.services) {
+      service.updateCharacteristic(this.platform.Characteristic.On, this.maxMode === mode);
+    }
+  }
+
+  /**
+   * Add the switches enabled in the device config and supported by the model, remove the others
+   */
+  private configure(): void {
+    const enabled = this.platform.getDeviceOptions(this.deviceId).services;
+    const supported = this.platform.getDeviceCapabilities(this.deviceId).maxModes;
+
+    for (const mode of MAX_MODES) {
+      const existing = this.accessory.getServiceById(this.platform.Service.Switch, mode);
+      if (!enabled.includes(mode) || !supported) {
+        if (existing) {
+          this.platform.log.debug(`Removing ${describeTarget(mode)} switch from ${this.deviceName}`);
+          this.accessory.removeService(existing);
+        }
+        this.services.delete(mode);
+        continue;
+      }
+      if (this.services.has(mode)) {
+        continue;
+      }
+
+      const name = `${this.deviceName} ${describeTarget(mode)}`;
+      const service = existing || this.accessory.addService(this.platform.Service.Switch, name, mode);
+      service.setCharacteristic(this.platform.Characteristic.Name, name);
+      service.getCharacteristic(this.platform.Characteristic.On)
+        .onGet(() => this.getOn(mode))
+        .onSet(value => this.setOn(mode, value));
+      this.services.set(mode, service);
+    }
+  }
+
+  private async getOn(mode: MaxMode): Promise<CharacteristicValue> {
+    this.guard.assertResponsive();
+    return this.maxMode === mode;
+  }
+
+  private async setOn(mode: MaxMode, value: CharacteristicValue): Promise<void> {
+    this.guard.assertResponsive();
+    const on = value as boolean;
+    if (!on && this.maxMode !== mode) {
+      return; // Already off
+    }
+
+    try {
+      if (on) {
+        // Only one max mode can run at a time
+        for (const [other, service] of this.services) {
+          if (other !== mode) {
+            service.updateCharacteristic(this.platform.Characteristic.On, false);
+          }
+        }
+        this.platform.log.info(`Switching ${this.deviceName} to ${describeTarget(mode)}`);
+        await this.writeCoalescer.write({ maxMode: mode });
+      } else if (this.lastSetpoint !== undefined) {
+        this.platform.log.info(`Leaving ${describeTarget(mode)} on ${this.deviceName}, back to ${this.lastSetpoint}°C`);
+        await this.writeCoalescer.write({ temperature: this.lastSetpoint });
+      } else {
+        // No set point to return to
+        this.platform.log.info(`Leaving ${describeTarget(mode)} on ${this.deviceName}, turning it off`);
+        await this.writeCoalescer.write({ power: 'off' });
+      }
+    } catch (error) {
+      this.guard.handleWriteError(`setting ${describeTarget(mode)}`, error, () => this.rollback());
+    }
+  }
+
+  /**
+   * Show the last confirmed state again after a failed write
+   */
+  private rollback(): void {
+    const state = this.stateStore.get(this.deviceId);
+    if (state) {
+      this.applyState(state);
+    } else {
+      for (const [mode, service] of this.services) {
+        service.updateCharacteristic(this.platform.Characteristic.On, this.maxMode === mode);
+      }
+    }
+  }
+}
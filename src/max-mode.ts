@@ -0,0 +1,48 @@
+import { DeviceControl } from './device-status.js';
+
+/**
+ * Full-power modes beyond the normal set point range
+ */
+export type MaxMode = 'maxCool' | 'maxHeat';
+
+export const MAX_MODES: readonly MaxMode[] = ['maxCool', 'maxHeat'];
+
+/**
+ * Out-of-range set_temperature_c values that select a max mode. They are markers,
+ * not temperatures, and have no Fahrenheit form: they are always sent and read
+ * in set_temperature_c, whatever unit the device is otherwise driven in.
+ */
+export const MAX_MODE_SETPOINTS: Record<MaxMode, number> = {
+  maxCool: -1,
+  maxHeat: 999,
+};
+
+/**
+ * What a schedule or Warm Awake alarm aims for: a temperature in Celsius or a max mode
+ */
+export type SetpointTarget = number | MaxMode;
+
+export function isMaxMode(value: unknown): value is MaxMode {
+  return MAX_MODES.includes(value as MaxMode);
+}
+
+/**
+ * Max mode the device is running in, if any
+ */
+export function maxModeOf(control: DeviceControl): MaxMode | undefined {
+  return MAX_MODES.find(mode => control.set_temperature_c === MAX_MODE_SETPOINTS[mode]);
+}
+
+/**
+ * Readable form of a set point target for logs
+ */
+export function describeTarget(target: SetpointTarget): string {
+  switch (target) {
+    case 'maxCool':
+      return 'Max Cool';
+    case 'maxHeat':
+      return 'Max Heat';
+    default:
+      return `${target}°C`;
+  }
+}
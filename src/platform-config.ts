@@ -0,0 +1,51 @@
+import { PlatformConfig } from 'homebridge';
+import { RetryPolicy } from './retry-policy.js';
+import { CircuitBreakerOptions } from './circuit-breaker.js';
+import { ExtraService, ServiceType } from './device-config.js';
+import { SchedulerConfig } from './scheduler/types.js';
+import { TokenSourceConfig } from './token-source.js';
+import { TemperatureUnit } from './temperature.js';
+
+/**
+ * One entry of the `accounts` list
+ */
+export interface AccountConfig extends TokenSourceConfig {
+  name?: string;
+}
+
+/**
+ * One entry of the `devices` list, overriding platform settings for a device
+ */
+export interface DeviceConfig {
+  id?: string;
+  name?: string;
+  minTemperature?: number; // Celsius
+  maxTemperature?: number; // Celsius
+  pollingInterval?: number; // seconds
+  enableHumidity?: boolean;
+  unit?: TemperatureUnit;
+  temperatureOffset?: number; // Celsius
+  services?: ExtraService[];
+  serviceType?: ServiceType;
+}
+
+/**
+ * Platform configuration as written in config.json
+ * Every field is optional here; config-validator reports what is missing or wrong.
+ */
+export interface SleepMePlatformConfig extends PlatformConfig, TokenSourceConfig {
+  configVersion?: number; // Shape of this config; see config-migration
+  accounts?: AccountConfig[];
+  unit?: TemperatureUnit;
+  verbose?: boolean;
+  redactDeviceIds?: boolean; // Hash device IDs in logs
+  enableHumidity?: boolean;
+  enableScheduling?: boolean;
+  baseUrl?: string;
+  statusCacheTtl?: number; // milliseconds
+  retry?: Partial<RetryPolicy>;
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  discoveryInterval?: number; // minutes, 0 disables rediscovery
+  devices?: DeviceConfig[];
+  scheduler?: SchedulerConfig;
+}
@@ -4,14 +4,25 @@ import {
   DynamicPlatformPlugin,
   Logger,
   PlatformAccessory,
-  PlatformConfig,
   Service,
 } from 'homebridge';
 
 import { SleepMePlatformAccessory } from './platformAccessory.js';
 import { HumidityAccessory } from './humidity-accessory.js';
-import { SleepMeApi } from './sleepme-api.js';
+import { HeaterCoolerAccessory } from './heater-cooler-accessory.js';
+import { SleepMeApi, SleepMeApiOptions } from './sleepme-api.js';
 import { SchedulerService } from './scheduler/index.js';
+import { PollingPlanner } from './polling-planner.js';
+import { DeviceStateStore } from './device-state-store.js';
+import { DeviceStatePersistence } from './state-persistence.js';
+import { AccessoryKind, AccessoryRegistry } from './accessory-registry.js';
+import { DeviceOptions, resolveDeviceOptions } from './device-config.js';
+import { DeviceCapabilities, detectCapabilities } from './device-capabilities.js';
+import { SleepMePlatformConfig } from './platform-config.js';
+import { reportConfigProblems, validateConfig, validateDeviceIds } from './config-validator.js';
+import { migrateConfig, reportMigration } from './config-migration.js';
+import { Redactor, createRedactingLogger } from './redaction.js';
+import { StaticTokenSource, TokenSourceConfig, configuredTokenSources, createTokenSource } from './token-source.js';
 
 export interface Device {
   id: string;
@@ -19,6 +30,17 @@ export interface Device {
   attachments: string;
 }
 
+/**
+ * A SleepMe account and the API client that talks to it
+ */
+export interface SleepMeAccount {
+  id: string; // Stable identifier stored in accessory context
+  name: string;
+  api: SleepMeApi;
+  pollingPlanner: PollingPlanner; // Shares this account's request budget between devices
+  stateStore: DeviceStateStore; // Latest state of this account's devices
+}
+
 /**
  * HomebridgePlatform
  * This class is the main constructor function for your plugin.
@@ -27,14 +49,39 @@ export class SleepMePlatform implements DynamicPlatformPlugin {
   public readonly Service: typeof Service = this.api.hap.Service;
   public readonly Characteristic: typeof Characteristic = this.api.hap.Characteristic;
 
-  // Used to track restored cached accessories
-  public readonly accessories: PlatformAccessory[] = [];
+  // Every accessory registered by this platform, by kind
+  private readonly accessoryRegistry: AccessoryRegistry<SleepMeAccount>;
+  
+  // One API client (and rate limiter) per configured account
+  public readonly accounts: SleepMeAccount[];
+  
+  // Masks tokens and (optionally) device IDs in everything logged through this.log
+  private readonly redactor: Redactor;
+  
+  // Last known device state, saved across restarts
+  private readonly statePersistence: DeviceStatePersistence;
   
-  // API service
-  public readonly apiService: SleepMeApi;
+  // deviceId -> account that owns the device
+  private readonly deviceAccounts = new Map<string, SleepMeAccount>();
+  
+  // deviceId -> options from the devices[] entry merged with platform defaults
+  private readonly deviceOptions = new Map<string, DeviceOptions>();
+
+  // deviceId -> entry from the last discovery, used to identify the model
+  private readonly discoveredDeviceInfo = new Map<string, Device>();
   
   // Scheduler service
   private scheduler?: SchedulerService;
+  private discoveredDevices = new Map<string, string>(); // deviceId -> name from the last discovery
+  private deviceIdsChecked = false; // devices[] IDs are checked after the first complete discovery
+  
+  // Background rediscovery
+  private discoveryTimer?: NodeJS.Timeout;
+  private discoveryFailures = 0;
+  private shuttingDown = false;
+  private readonly DISCOVERY_RETRY_INITIAL = 60000; // First retry after a failed discovery (milliseconds)
+  private readonly DISCOVERY_RETRY_MAX = 30 * 60000; // Longest delay between failed discoveries
+  private readonly DEFAULT_DISCOVERY_INTERVAL = 60; // minutes
   
   // Configuration options
   public readonly verbose: boolean;
@@ -43,29 +90,64 @@ export class SleepMePlatform implements DynamicPlatformPlugin {
 
   constructor(
     public readonly log: Logger,
-    public readonly config: PlatformConfig,
+    public readonly config: SleepMePlatformConfig,
     public readonly api: API,
   ) {
+    // Everything below logs through the redacting logger, including the API clients and accessories
+    this.redactor = new Redactor({ hashDeviceIds: this.config.redactDeviceIds === true });
+    this.log = createRedactingLogger(log, this.redactor);
+    if (Array.isArray(this.config.devices)) {
+      for (const device of this.config.devices) {
+        if (device?.id) {
+          this.redactor.addDeviceId(device.id);
+        }
+      }
+    }
+
     this.log.info('Initializing SleepMePlatform platform...');
 
+    // Upgrade configs written for older releases before reading anything from them
+    reportMigration(this.log, migrateConfig(this.config));
+
+    // Report every configuration problem at once; bad entries are skipped below
+    reportConfigProblems(this.log, validateConfig(this.config));
+
     // Initialize with default values
-    this.apiService = new SleepMeApi(
-      (this.config.apiToken as string) || '', 
-      this.log
-    );
     this.verbose = this.config.verbose === true;
     this.enableHumidity = this.config.enableHumidity === true;
     this.enableScheduling = this.config.enableScheduling === true;
+    this.accessoryRegistry = new AccessoryRegistry<SleepMeAccount>(this.log, this.api, {
+      thermostat: {
+        uuidSeed: deviceId => deviceId,
+        displayName: deviceName => deviceName,
+        create: (accessory, account) => new SleepMePlatformAccessory(this, accessory, account.api, account.stateStore),
+      },
+      heaterCooler: {
+        uuidSeed: deviceId => `${deviceId}-heatercooler`,
+        displayName: deviceName => deviceName,
+        create: (accessory, account) => new HeaterCoolerAccessory(this, accessory, account.api, account.stateStore),
+      },
+      humidity: {
+        uuidSeed: deviceId => `${deviceId}-humidity`,
+        displayName: deviceName => `${deviceName} Humidity`,
+        create: (accessory, account) => new HumidityAccessory(this, accessory, account.stateStore),
+      },
+    });
+    this.statePersistence = new DeviceStatePersistence(this.log, this.api.user.storagePath());
+    this.accounts = this.createAccounts();
 
     // Check for configuration errors
-    if (!this.config.apiToken) {
-      this.log.error('API Token is missing from configuration! Please add it to your config.json.');
+    if (this.accounts.length === 0) {
+      this.log.error('API Token is missing from configuration! Please add apiToken or accounts to your config.json.');
       return;
     }
 
     // Create scheduler if enabled
     if (this.enableScheduling) {
-      this.scheduler = new SchedulerService(this.config, this.apiService, this.log);
+      this.scheduler = new SchedulerService(this.config, deviceId => {
+        const account = this.getAccountForDevice(deviceId);
+        return account && { ...account, capabilities: this.getDeviceCapabilities(deviceId) };
+      }, this.log);
       this.log.info('Scheduler service created');
     }
 
@@ -74,19 +156,168 @@ export class SleepMePlatform implements DynamicPlatformPlugin {
     // in order to ensure they weren't added to homebridge twice.
     this.api.on('didFinishLaunching', () => {
       this.log.info('Executed didFinishLaunching callback');
-      // run the method to discover / register your devices as accessories
-      this.discoverDevices();
+      // run the method to discover / register your devices as accessories,
+      // then keep looking for added or removed devices in the background
+      this.runDiscovery();
     });
     
     // Handle shutdown
     this.api.on('shutdown', () => {
       this.log.info('Shutting down SleepMePlatform...');
+      this.shuttingDown = true;
+      if (this.discoveryTimer) {
+        clearTimeout(this.discoveryTimer);
+        this.discoveryTimer = undefined;
+      }
       if (this.scheduler) {
         this.scheduler.shutdown();
       }
+      this.accessoryRegistry.disposeAll();
+      this.accounts.forEach(account => account.stateStore.dispose());
+      this.statePersistence.flush();
     });
   }
 
+  /**
+   * Get the account (API client and state store) that owns a device
+   */
+  getAccountForDevice(deviceId: string): SleepMeAccount | undefined {
+    return this.deviceAccounts.get(deviceId);
+  }
+
+  /**
+   * Get the configured options for a device, with platform defaults applied
+   */
+  getDeviceOptions(deviceId: string): DeviceOptions {
+    let options = this.deviceOptions.get(deviceId);
+    if (!options) {
+      options = resolveDeviceOptions(this.config, deviceId, this.log);
+      this.deviceOptions.set(deviceId, options);
+    }
+    return options;
+  }
+
+  /**
+   * Get what a device's model supports, refined by its latest status once known
+   */
+  getDeviceCapabilities(deviceId: string): DeviceCapabilities {
+    const status = this.getAccountForDevice(deviceId)?.stateStore.get(deviceId)?.status;
+    return detectCapabilities(this.discoveredDeviceInfo.get(deviceId), status);
+  }
+
+  /**
+   * Accessory kinds exposed for a device. A humidity sensor is only created for
+   * devices that report humidity, but one payload leaving it out never removes
+   * an existing sensor, which would lose its rooms and automations.
+   */
+  private kindsForDevice(deviceId: string): AccessoryKind[] {
+    const options = this.getDeviceOptions(deviceId);
+    const kinds: AccessoryKind[] = [options.serviceType];
+    if (options.enableHumidity &&
+      (this.getDeviceCapabilities(deviceId).humidity || this.accessoryRegistry.has('humidity', deviceId))) {
+      kinds.push('humidity');
+    }
+    return kinds;
+  }
+
+  /**
+   * Build one account per configured API token.
+   * A token source at the root (the legacy `apiToken` or its alternatives) becomes the "default" account.
+   */
+  private createAccounts(): SleepMeAccount[] {
+    const apiOptions: SleepMeApiOptions = {
+      baseUrl: this.config.baseUrl,
+      retryPolicy: this.config.retry,
+      statusCacheTtl: this.config.statusCacheTtl,
+      circuitBreaker: this.config.circuitBreaker,
+      // Drive each device in the unit it is shown in, so whole °F are sent as such
+      temperatureUnit: deviceId => this.getDeviceOptions(deviceId).unit,
+      // Never send a set point the model does not accept, whoever asks for it
+      capabilities: deviceId => this.getDeviceCapabilities(deviceId),
+    };
+
+    const entries: { id: string; name: string; token: TokenSourceConfig }[] = [];
+    if (configuredTokenSources(this.config).length > 0) {
+      entries.push({ id: 'default', name: 'Default', token: this.config });
+    }
+
+    const configured = Array.isArray(this.config.accounts) ? this.config.accounts : [];
+    configured.forEach((entry, index) => {
+      const name = entry?.name?.trim() || `Account ${index + 1}`;
+      const id = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || `account-${index + 1}`;
+      entries.push({ id, name, token: entry ?? {} });
+    });
+
+    const accounts: SleepMeAccount[] = [];
+    const seenTokens = new Set<string>();
+    const seenIds = new Set<string>();
+
+    for (const entry of entries) {
+      const tokenSource = createTokenSource(entry.token, this.log);
+      const token = tokenSource?.getToken() ?? '';
+      if (!tokenSource || token === '') {
+        this.log.warn(`Account "${entry.name}" has no API token, skipping`);
+        continue;
+      }
+
+      if (seenTokens.has(token)) {
+        this.log.warn(`Account "${entry.name}" uses the same API token as another account, skipping`);
+        continue;
+      }
+
+      // Keep account IDs unique even if names collide
+      let id = entry.id;
+      for (let suffix = 2; seenIds.has(id); suffix++) {
+        id = `${entry.id}-${suffix}`;
+      }
+
+      seenTokens.add(token);
+      seenIds.add(id);
+      this.redactor.addSecret(() => tokenSource.getToken());
+      if (!(tokenSource instanceof StaticTokenSource)) {
+        this.log.info(`Account "${entry.name}" reads its API token from ${tokenSource.description}`);
+      }
+      const api = new SleepMeApi(tokenSource, this.log, this.verbose, apiOptions);
+      const pollingPlanner = new PollingPlanner(this.log, { requestsPerMinute: api.getRateLimitBudget().capacity });
+      accounts.push({
+        id,
+        name: entry.name,
+        api,
+        pollingPlanner,
+        stateStore: new DeviceStateStore(this.log, api, pollingPlanner, this.statePersistence),
+      });
+    }
+
+    if (accounts.length > 1) {
+      this.log.info(`Configured ${accounts.length} SleepMe accounts: ${accounts.map(account => account.name).join(', ')}`);
+    }
+
+    return accounts;
+  }
+
+  /**
+   * Warn about accounts whose devices and schedules cannot fit the API rate limit
+   */
+  private checkPollingCapacity(): void {
+    const configured = this.config.scheduler?.schedules;
+    const schedules = Array.isArray(configured) ? configured : [];
+    const hasSchedules = schedules.some(schedule => schedule?.enabled !== false);
+    const hasWarmAwake = this.config.scheduler?.warmAwake?.enabled === true;
+    const schedulingActive = this.enableScheduling && (hasSchedules || hasWarmAwake);
+
+    for (const account of this.accounts) {
+      let deviceCount = 0;
+      this.deviceAccounts.forEach(owner => {
+        if (owner === account) {
+          deviceCount++;
+        }
+      });
+
+      // Schedules and Warm Awake steps can fire for every device in the same minute
+      account.pollingPlanner.checkCapacity(`Account ${account.name}`, schedulingActive ? deviceCount : 0);
+    }
+  }
+
   /**
    * This function is invoked when homebridge restores cached accessories from disk.
    */
@@ -100,38 +331,104 @@ export class SleepMePlatform implements DynamicPlatformPlugin {
       this.log.debug(`Cached accessory device ID: ${accessory.context.device.id}`);
     }
 
-    // add the restored accessory to the accessories cache so we can track it later
-    this.accessories.push(accessory);
+    // add the restored accessory to the registry so we can track it later
+    this.accessoryRegistry.restore(accessory);
   }
 
-  async discoverDevices() {
+  /**
+   * Discover devices now and schedule the next discovery:
+   * periodically after a success, with backoff after a failure
+   */
+  private async runDiscovery(): Promise<void> {
+    const succeeded = await this.discoverDevices();
+    if (this.shuttingDown) {
+      return;
+    }
+
+    let delay: number;
+    if (succeeded) {
+      this.discoveryFailures = 0;
+      const minutes = typeof this.config.discoveryInterval === 'number'
+        ? this.config.discoveryInterval
+        : this.DEFAULT_DISCOVERY_INTERVAL;
+      if (minutes <= 0) {
+        this.log.debug('Periodic device discovery is disabled');
+        return;
+      }
+      delay = minutes * 60000;
+    } else {
+      this.discoveryFailures++;
+      delay = Math.min(this.DISCOVERY_RETRY_INITIAL * Math.pow(2, this.discoveryFailures - 1), this.DISCOVERY_RETRY_MAX);
+      this.log.warn(`Device discovery incomplete, retrying in ${Math.round(delay / 60000)} minute(s)`);
+    }
+
+    this.log.debug(`Next device discovery in ${Math.round(delay / 60000)} minute(s)`);
+    this.discoveryTimer = setTimeout(() => this.runDiscovery(), delay);
+  }
+
+  /**
+   * Discover devices from every account and bring the registered accessories in line
+   * @returns Whether every account answered
+   */
+  async discoverDevices(): Promise<boolean> {
     this.log.info('Starting device discovery...');
     try {
       if (this.verbose) {
         this.log.debug('Discovering SleepMe devices...');
       }
 
-      const devices = await this.apiService.getDevices();
+      // Discover devices from every account, remembering which account owns each
+      const devices: Device[] = [];
+      const failedAccounts = new Set<string>();
+      const deviceAccounts = new Map<string, SleepMeAccount>();
+
+      for (const account of this.accounts) {
+        try {
+          const accountDevices = await account.api.getDevices();
+          this.log.info(`Account ${account.name}: ${accountDevices.length} device(s) found`);
+
+          for (const device of accountDevices) {
+            const owner = deviceAccounts.get(device.id);
+            if (owner) {
+              this.log.debug(`Device ${device.id} already discovered via account ${owner.name}, skipping duplicate`);
+              continue;
+            }
+            deviceAccounts.set(device.id, account);
+            devices.push(device);
+            this.redactor.addDeviceId(device.id);
+          }
+        } catch (error) {
+          failedAccounts.add(account.id);
+          this.log.error(
+            `Error discovering devices for account ${account.name}: ${error instanceof Error ? error.message : error}`,
+          );
+        }
+      }
 
-      if (!devices || devices.length === 0) {
+      if (devices.length === 0 && failedAccounts.size > 0) {
         this.log.error('No SleepMe devices found. Check your API token and connectivity.');
-        return;
+        return false;
+      }
+      if (devices.length === 0) {
+        // Every account answered, so devices removed from them are pruned below
+        this.log.warn('No SleepMe devices found on any account');
       }
 
+      // Keep owners of devices on accounts that could not be reached this time
+      this.deviceAccounts.forEach((account, deviceId) => {
+        if (failedAccounts.has(account.id) && !deviceAccounts.has(deviceId)) {
+          deviceAccounts.set(deviceId, account);
+        }
+      });
+      this.deviceAccounts.clear();
+      deviceAccounts.forEach((account, deviceId) => this.deviceAccounts.set(deviceId, account));
+
       if (this.verbose) {
         this.log.debug('Found SleepMe devices:', JSON.stringify(devices));
       }
 
       this.log.info('Devices found:', devices.length);
 
-      // Store a map of existing accessories by device ID for easy lookup
-      const existingAccessories = new Map<string, PlatformAccessory>();
-      this.accessories.forEach(accessory => {
-        if (accessory.context.device && accessory.context.device.id) {
-          existingAccessories.set(accessory.context.device.id, accessory);
-        }
-      });
-
       // Store map of device IDs to names for scheduler
       const deviceMap = new Map<string, string>();
 
@@ -144,120 +441,99 @@ export class SleepMePlatform implements DynamicPlatformPlugin {
           continue;
         }
 
+        const account = this.deviceAccounts.get(device.id)!;
+        const options = this.getDeviceOptions(device.id);
+        this.discoveredDeviceInfo.set(device.id, device);
+
+        const capabilities = this.getDeviceCapabilities(device.id);
+        this.log.debug(`Device ${device.id} identified as ${capabilities.modelName}`);
+        if (options.enableHumidity && !capabilities.humidity && !this.accessoryRegistry.has('humidity', device.id)) {
+          this.log.debug(`Device ${device.id} does not report humidity, no humidity sensor is exposed`);
+        }
+
         // Get customized name if available
-        let customName = device.name;
-        if (this.config.devices) {
-          const override = this.config.devices.find((d: { id: string }) => d.id === device.id);
-          if (override && override.name) {
-            customName = override.name;
-            this.log.debug(`Using custom name for device ${device.id}: ${customName}`);
-          }
+        const customName = options.name ?? device.name;
+        if (options.name) {
+          this.log.debug(`Using custom name for device ${device.id}: ${customName}`);
         }
 
         // Store device name for scheduler
         deviceMap.set(device.id, customName);
 
-        // Create thermostat accessory
-        const uuid = this.api.hap.uuid.generate(device.id);
-        activeAccessories.add(device.id);
-
-        // Check if an accessory with this UUID already exists
-        const existingAccessory = existingAccessories.get(device.id);
-
-        if (existingAccessory) {
-          this.log.info(`Restoring accessory from cache: ${existingAccessory.displayName} (ID: ${device.id})`);
-          
-          // Update the accessory context with fresh data
-          existingAccessory.context.device = device;
-          existingAccessory.displayName = customName;
-          
-          this.api.updatePlatformAccessories([existingAccessory]);
-          new SleepMePlatformAccessory(this, existingAccessory, this.apiService);
-          
-        } else {
-          // Create a new accessory
-          this.log.info(`Adding new accessory: ${customName} (ID: ${device.id})`);
-          const accessory = new this.api.platformAccessory(customName, uuid);
-          
-          // Store device info in the accessory context
-          accessory.context.device = device;
-          
-          // Create the accessory handler
-          new SleepMePlatformAccessory(this, accessory, this.apiService);
-          
-          // Register the accessory
-          this.api.registerPlatformAccessories('homebridge-sleepmepro', 'SleepMePlatform', [accessory]);
+        // Adaptive polling unless the device has a fixed interval
+        account.pollingPlanner.setFixedInterval(device.id, options.pollingInterval);
+
+        for (const kind of this.kindsForDevice(device.id)) {
+          activeAccessories.add(this.accessoryRegistry.ensure(kind, device, customName, account));
         }
+      }
 
-        // Create humidity accessory if enabled
-        if (this.enableHumidity) {
-          const humidityUuid = this.api.hap.uuid.generate(`${device.id}-humidity`);
-          const humidityName = `${customName} Humidity`;
-          
-          // Check if a humidity accessory already exists
-          const existingHumidityAccessory = this.accessories.find(accessory => 
-            accessory.UUID === humidityUuid);
-          
-          if (existingHumidityAccessory) {
-            this.log.info(`Restoring humidity accessory from cache: ${existingHumidityAccessory.displayName}`);
-            
-            // Update context
-            existingHumidityAccessory.context.device = device;
-            existingHumidityAccessory.displayName = humidityName;
-            
-            this.api.updatePlatformAccessories([existingHumidityAccessory]);
-            new HumidityAccessory(this, existingHumidityAccessory, this.apiService);
-            
-            // Mark as active
-            activeAccessories.add(`${device.id}-humidity`);
-          } else {
-            this.log.info(`Adding new humidity accessory: ${humidityName}`);
-            const humidityAccessory = new this.api.platformAccessory(humidityName, humidityUuid);
-            
-            // Store device info in context
-            humidityAccessory.context.device = device;
-            
-            // Create the accessory handler
-            new HumidityAccessory(this, humidityAccessory, this.apiService);
-            
-            // Register the accessory
-            this.api.registerPlatformAccessories('homebridge-sleepmepro', 'SleepMePlatform', [humidityAccessory]);
-            
-            // Mark as active
-            activeAccessories.add(`${device.id}-humidity`);
-          }
+      // Keep devices of accounts that could not be reached this time
+      this.discoveredDevices.forEach((name, deviceId) => {
+        const account = this.deviceAccounts.get(deviceId);
+        if (account && failedAccounts.has(account.id) && !deviceMap.has(deviceId)) {
+          deviceMap.set(deviceId, name);
         }
+      });
+
+      // Overrides can only be matched to devices once every account has answered
+      if (!this.deviceIdsChecked && failedAccounts.size === 0) {
+        this.deviceIdsChecked = true;
+        reportConfigProblems(this.log, validateDeviceIds(this.config, new Set(deviceMap.keys())), 'Device configuration');
       }
 
-      // Initialize scheduler if enabled
-      if (this.enableScheduling && this.scheduler && deviceMap.size > 0) {
-        this.log.info('Initializing scheduler with discovered devices');
-        this.scheduler.initialize(deviceMap);
+      // Re-plan polling and (re-)initialize the scheduler when the set of devices changed
+      if (!this.sameDevices(deviceMap)) {
+        this.discoveredDevices = deviceMap;
+        this.checkPollingCapacity();
+
+        // An empty map clears the jobs of devices that were all removed
+        if (this.enableScheduling && this.scheduler) {
+          this.log.info(deviceMap.size > 0
+            ? 'Initializing scheduler with discovered devices'
+            : 'No devices left, clearing scheduled jobs');
+          this.scheduler.initialize(deviceMap);
+        }
       }
 
-      // Remove accessories that no longer exist
-      for (const accessory of this.accessories) {
-        if (accessory.context.device && accessory.context.device.id) {
-          const accessoryId = accessory.context.device.id;
-          const isHumidity = accessory.UUID.includes('-humidity');
-          
-          // For humidity accessories, check the combined ID
-          const activeId = isHumidity ? `${accessoryId}-humidity` : accessoryId;
-          
-          if (!activeAccessories.has(activeId)) {
-            this.log.info(`Removing accessory no longer found: ${accessory.displayName}`);
-            this.api.unregisterPlatformAccessories('homebridge-sleepmepro', 'SleepMePlatform', [accessory]);
-          }
+      // Remove accessories that no longer exist or whose kind was disabled,
+      // but keep those of accounts that could not be reached this time
+      const removed = this.accessoryRegistry.prune(activeAccessories, accessory =>
+        failedAccounts.has(accessory.context.accountId) &&
+        accessory.context.device?.id !== undefined &&
+        this.kindsForDevice(accessory.context.device.id).includes(this.accessoryRegistry.kindOf(accessory)!),
+      );
+      for (const accessory of removed) {
+        const deviceId = accessory.context.device?.id;
+        if (deviceId && !this.deviceAccounts.has(deviceId)) {
+          this.statePersistence.remove(deviceId);
         }
       }
 
+      this.log.info('Device discovery completed.');
+      return failedAccounts.size === 0;
     } catch (error) {
       if (error instanceof Error) {
         this.log.error(`Error discovering devices: ${error.message}`);
       } else {
         this.log.error('Unknown error discovering devices');
       }
+      return false;
+    }
+  }
+
+  /**
+   * Whether a device map matches the one from the previous discovery
+   */
+  private sameDevices(deviceMap: Map<string, string>): boolean {
+    if (deviceMap.size !== this.discoveredDevices.size) {
+      return false;
+    }
+    for (const [deviceId, name] of deviceMap) {
+      if (this.discoveredDevices.get(deviceId) !== name) {
+        return false;
+      }
     }
-    this.log.info('Device discovery completed.');
+    return true;
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,14 @@
 import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
 import { SleepMePlatform } from './platform.js';
 import { SleepMeApi } from './sleepme-api.js';
+import { DeviceWriteCoalescer } from './write-coalescer.js';
+import { DeviceState, DeviceStateEvent, DeviceStateStore } from './device-state-store.js';
+import { DEVICE_MAX_TEMPERATURE, DEVICE_MIN_TEMPERATURE, DeviceOptions } from './device-config.js';
+import { AccessoryGuard } from './accessory-guard.js';
+import { ThermalMode, setpointForTarget, thermalActivity, thermalMode } from './thermal-mapping.js';
+import { Temperature } from './temperature.js';
+import { DeviceTemperatureProfile } from './temperature-profile.js';
+import { MaxModeSwitches } from './max-mode-switches.js';
 
 /**
  * Platform Accessory
@@ -9,24 +17,26 @@ import { SleepMeApi } from './sleepme-api.js';
  */
 export class SleepMePlatformAccessory {
   private service: Service;
-  private targetTemperature = 21; // Default value
-  private currentTemperature = 21; // Default value
+  private targetTemperature = 21; // As shown in HomeKit (Celsius)
+  private currentTemperature = 21; // As shown in HomeKit (Celsius)
   private currentHeatingState = 0;
   private targetHeatingState = 0;
   private deviceId: string;
   private firmwareVersion = 'Unknown';
-  private isUpdating = false;
-  private lastUpdateTime = 0;
+  private writeCoalescer: DeviceWriteCoalescer;
+  private readonly guard: AccessoryGuard; // "No Response" and failed write handling
+  private unsubscribeState?: () => void;
+  private readonly options: DeviceOptions; // Per-device settings (range, unit, offset)
+  private readonly profile: DeviceTemperatureProfile; // Model, range and step of the target temperature
+  private readonly maxModeSwitches: MaxModeSwitches;
   
-  // Temperature limits
-  private readonly MIN_TEMP = 13; // 55°F
-  private readonly MAX_TEMP = 46; // 115°F
-  private readonly TEMP_STEP = 0.5;
+  private readonly WRITE_DEBOUNCE = 1000; // milliseconds
 
   constructor(
     private readonly platform: SleepMePlatform,
     private readonly accessory: PlatformAccessory,
     private readonly apiService: SleepMeApi,
+    private readonly stateStore: DeviceStateStore,
   ) {
     // Validate we have a device ID
     if (!this.accessory.context.device || !this.accessory.context.device.id) {
@@ -36,21 +46,32 @@ export class SleepMePlatformAccessory {
     
     // Get device ID
     this.deviceId = this.accessory.context.device?.id || '';
+    this.options = this.platform.getDeviceOptions(this.deviceId);
+    this.profile = new DeviceTemperatureProfile(this.platform, this.accessory, this.deviceId, this.options);
+
+    // Merge rapid HomeKit changes (e.g. slider drags) into a single update;
+    // the API's verification read feeds the result back through the state store
+    this.writeCoalescer = new DeviceWriteCoalescer(
+      this.apiService,
+      this.deviceId,
+      this.platform.log,
+      this.WRITE_DEBOUNCE,
+    );
+
+    // Show "No Response" in the Home app while the API is unreachable
+    this.guard = new AccessoryGuard(this.platform, this.accessory.displayName, this.deviceId, this.stateStore);
 
     // Set accessory information
     this.accessory.getService(this.platform.Service.AccessoryInformation)!
       .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Sleepme Inc.')
-      .setCharacteristic(this.platform.Characteristic.Model, 'ChiliPad')
+      .setCharacteristic(this.platform.Characteristic.Model, this.profile.capabilities.modelName)
       .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.UUID);
 
     // Get device name (use override if available)
     let deviceName = this.accessory.context.device?.name || this.accessory.displayName;
-    if (this.platform.config.devices) {
-      const override = this.platform.config.devices.find((d: { id: string }) => d.id === this.deviceId);
-      if (override && override.name) {
-        deviceName = override.name;
-        this.platform.log.debug(`Using override name for device ${this.deviceId}: ${deviceName}`);
-      }
+    if (this.options.name) {
+      deviceName = this.options.name;
+      this.platform.log.debug(`Using override name for device ${this.deviceId}: ${deviceName}`);
     }
 
     // Set up the service
@@ -61,12 +82,8 @@ export class SleepMePlatformAccessory {
     this.service.setCharacteristic(this.platform.Characteristic.Name, deviceName);
 
     // Configure temperature range (min, max, step)
+    this.setTemperatureProps();
     this.service.getCharacteristic(this.platform.Characteristic.TargetTemperature)
-      .setProps({
-        minValue: this.MIN_TEMP,
-        maxValue: this.MAX_TEMP,
-        minStep: this.TEMP_STEP,
-      })
       .onSet(this.setTargetTemperature.bind(this))
       .onGet(this.getTargetTemperature.bind(this));
 
@@ -81,33 +98,49 @@ export class SleepMePlatformAccessory {
       .onSet(this.setTargetHeatingCoolingState.bind(this))
       .onGet(this.getTargetHeatingCoolingState.bind(this));
 
-    // Set temperature display units based on config
-    const displayUnits = this.platform.config.unit === 'C' 
+    // Set temperature display units based on the device's config
+    const displayUnits = this.options.unit === 'C'
       ? this.platform.Characteristic.TemperatureDisplayUnits.CELSIUS
       : this.platform.Characteristic.TemperatureDisplayUnits.FAHRENHEIT;
     
     this.service.getCharacteristic(this.platform.Characteristic.TemperatureDisplayUnits)
       .updateValue(displayUnits);
 
-    // Initialize device status if we have a valid device ID
+    // Optional Max Cool / Max Heat switches, written through the same coalescer
+    this.maxModeSwitches = new MaxModeSwitches(
+      this.platform,
+      this.accessory,
+      deviceName,
+      this.writeCoalescer,
+      this.stateStore,
+      this.guard,
+    );
+
+    // Follow the shared device state instead of polling on our own,
+    // starting from the last known state saved before a restart
     if (this.deviceId) {
-      this.refreshDeviceStatus()
-        .catch((error: Error) => this.platform.log.error(`Error initializing device status: ${error.message}`));
-
-      // Set up periodic polling with 60 second interval
-      setInterval(() => {
-        if (this.deviceId) {
-          this.refreshDeviceStatus()
-            .catch((error: Error) => this.platform.log.error(`Error updating device status: ${error.message}`));
-        }
-      }, 60000);
+      this.unsubscribeState = this.stateStore.subscribe(this.deviceId, event => this.handleStateEvent(event));
+      const state = this.stateStore.get(this.deviceId);
+      if (state) {
+        this.applyState(state);
+      }
     }
   }
 
+  /**
+   * Stop following the device, e.g. when the accessory is removed
+   */
+  dispose(): void {
+    this.unsubscribeState?.();
+    this.unsubscribeState = undefined;
+    this.writeCoalescer.dispose();
+  }
+
   /**
    * Get the current temperature
    */
   async getCurrentTemperature(): Promise<CharacteristicValue> {
+    this.guard.assertResponsive();
     return this.currentTemperature;
   }
 
@@ -115,6 +148,7 @@ export class SleepMePlatformAccessory {
    * Get the target temperature
    */
   async getTargetTemperature(): Promise<CharacteristicValue> {
+    this.guard.assertResponsive();
     return this.targetTemperature;
   }
 
@@ -122,6 +156,7 @@ export class SleepMePlatformAccessory {
    * Get the current heating/cooling state
    */
   async getCurrentHeatingCoolingState(): Promise<CharacteristicValue> {
+    this.guard.assertResponsive();
     return this.currentHeatingState;
   }
 
@@ -129,6 +164,7 @@ export class SleepMePlatformAccessory {
    * Get the target heating/cooling state
    */
   async getTargetHeatingCoolingState(): Promise<CharacteristicValue> {
+    this.guard.assertResponsive();
     return this.targetHeatingState;
   }
 
@@ -142,15 +178,15 @@ export class SleepMePlatformAccessory {
         throw new Error('Missing device ID, cannot update temperature');
       }
       
-      const newTemp = this.ensureValidTemperature(value as number);
-      this.platform.log.info(`Setting target temperature to ${newTemp}°C for device ${this.deviceId}`);
+      const newTemp = this.toDeviceTemperature(value as number);
+      this.platform.log.info(`Setting target temperature to ${newTemp.toString(this.options.unit)} for device ${this.deviceId}`);
       
       // First check if we need to turn device on
       if (this.targetHeatingState === this.platform.Characteristic.TargetHeatingCoolingState.OFF) {
         this.platform.log.debug(`Device is currently OFF, turning ON with new temperature`);
         
         // Turn on the device with the new temperature
-        await this.apiService.turnDeviceOn(this.deviceId, newTemp);
+        await this.writeCoalescer.write({ power: 'on', temperature: newTemp.celsius });
         
         // Update the heating state to AUTO
         this.targetHeatingState = this.platform.Characteristic.TargetHeatingCoolingState.AUTO;
@@ -160,24 +196,15 @@ export class SleepMePlatformAccessory {
         );
       } else {
         // Device already on, just set temperature
-        await this.apiService.setTemperature(this.deviceId, newTemp);
+        await this.writeCoalescer.write({ temperature: newTemp.celsius });
       }
       
       // Update our local value
-      this.targetTemperature = newTemp;
-      
-      // Add short delay then update device status to reflect changes
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      await this.refreshDeviceStatus();
+      this.targetTemperature = newTemp.toHomeKit(this.options.unit);
       
-      this.platform.log.info(`Target temperature set to ${newTemp}°C for device ${this.deviceId}`);
+      this.platform.log.info(`Target temperature set to ${newTemp.toString(this.options.unit)} for device ${this.deviceId}`);
     } catch (error) {
-      if (error instanceof Error) {
-        this.platform.log.error(`Error setting target temperature: ${error.message}`);
-      } else {
-        this.platform.log.error('Unknown error setting target temperature');
-      }
-      throw error;
+      this.guard.handleWriteError('setting target temperature', error, () => this.rollback());
     }
   }
 
@@ -194,42 +221,24 @@ export class SleepMePlatformAccessory {
       const state = value as number;
       this.platform.log.info(`Setting target state to ${this.getHeatingStateName(state)} for device ${this.deviceId}`);
       
-      this.targetHeatingState = state;
-      
       switch (state) {
         case this.platform.Characteristic.TargetHeatingCoolingState.OFF: {
           // Simply turn the device off
-          await this.apiService.turnDeviceOff(this.deviceId);
-          break;
-        }
-          
-        case this.platform.Characteristic.TargetHeatingCoolingState.HEAT: {
-          // For heat mode, set a temperature higher than current
-          const heatingTemp = Math.max(this.currentTemperature + 2, this.targetTemperature);
-          const validTemp = this.ensureValidTemperature(heatingTemp);
-          
-          // Turn on with the heating temperature
-          await this.apiService.turnDeviceOn(this.deviceId, validTemp);
-          
-          // Update our local target temperature
-          this.targetTemperature = validTemp;
-          this.service.updateCharacteristic(
-            this.platform.Characteristic.TargetTemperature,
-            this.targetTemperature
-          );
+          await this.writeCoalescer.write({ power: 'off' });
           break;
         }
           
+        case this.platform.Characteristic.TargetHeatingCoolingState.HEAT:
         case this.platform.Characteristic.TargetHeatingCoolingState.COOL: {
-          // For cool mode, set a temperature lower than current
-          const coolingTemp = Math.min(this.currentTemperature - 2, this.targetTemperature);
-          const validTemp = this.ensureValidTemperature(coolingTemp);
+          // The device has a single set point; aim it past the water temperature
+          const setpoint = setpointForTarget(this.toThermalMode(state), this.currentTemperature, this.targetTemperature);
+          const validTemp = this.toDeviceTemperature(setpoint);
           
-          // Turn on with the cooling temperature
-          await this.apiService.turnDeviceOn(this.deviceId, validTemp);
+          // Turn on with the heating or cooling temperature
+          await this.writeCoalescer.write({ power: 'on', temperature: validTemp.celsius });
           
           // Update our local target temperature
-          this.targetTemperature = validTemp;
+          this.targetTemperature = validTemp.toHomeKit(this.options.unit);
           this.service.updateCharacteristic(
             this.platform.Characteristic.TargetTemperature,
             this.targetTemperature
@@ -239,148 +248,157 @@ export class SleepMePlatformAccessory {
           
         case this.platform.Characteristic.TargetHeatingCoolingState.AUTO: {
           // For auto mode, just turn on with current target temp
-          await this.apiService.turnDeviceOn(this.deviceId, this.targetTemperature);
+          await this.writeCoalescer.write({ power: 'on', temperature: this.targetTemperature });
           break;
         }
       }
       
-      // Add short delay then update device status to reflect changes
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      await this.refreshDeviceStatus();
+      // Only record the new state once the device accepted it
+      this.targetHeatingState = state;
       
       this.platform.log.info(
         `Set heating state to ${this.getHeatingStateName(state)} for device ${this.deviceId}`
       );
     } catch (error) {
-      if (error instanceof Error) {
-        this.platform.log.error(`Error setting target heating state: ${error.message}`);
-      } else {
-        this.platform.log.error('Unknown error setting target heating state');
-      }
-      throw error;
+      this.guard.handleWriteError('setting target heating state', error, () => this.rollback());
     }
   }
 
   /**
-   * Update device status from the API
-   * This polls the device and updates HomeKit with current state
+   * Show the last confirmed state again after a failed write
    */
-  async refreshDeviceStatus(): Promise<void> {
-    // Prevent multiple concurrent updates
-    if (this.isUpdating || !this.deviceId) {
+  private rollback(): void {
+    const state = this.stateStore.get(this.deviceId);
+    if (state) {
+      this.applyState(state);
       return;
     }
 
-    // Throttle updates (max once every 10 seconds)
-    const now = Date.now();
-    if (now - this.lastUpdateTime < 10000) {
-      this.platform.log.debug(`Skipping update - too soon since last update (${Math.floor((now - this.lastUpdateTime)/1000)}s)`);
-      return;
+    // Nothing confirmed yet; local values only change after a successful write
+    this.service.updateCharacteristic(this.platform.Characteristic.TargetTemperature, this.targetTemperature);
+    this.service.updateCharacteristic(this.platform.Characteristic.TargetHeatingCoolingState, this.targetHeatingState);
+  }
+
+  /**
+   * Convert between HomeKit's TargetHeatingCoolingState and the shared thermal mode
+   */
+  private toThermalMode(state: number): ThermalMode {
+    const { TargetHeatingCoolingState } = this.platform.Characteristic;
+    switch (state) {
+      case TargetHeatingCoolingState.OFF:
+        return 'off';
+      case TargetHeatingCoolingState.HEAT:
+        return 'heat';
+      case TargetHeatingCoolingState.COOL:
+        return 'cool';
+      default:
+        return 'auto';
     }
+  }
 
-    this.isUpdating = true;
-    this.lastUpdateTime = now;
-    
-    try {
-      this.platform.log.debug(`Updating status for device ${this.deviceId}`);
-      const deviceStatus = await this.apiService.getDeviceStatus(this.deviceId);
-      
-      if (!deviceStatus) {
-        this.platform.log.error(`Failed to get status for device ${this.deviceId}`);
-        return;
-      }
+  private fromThermalMode(mode: ThermalMode): number {
+    const { TargetHeatingCoolingState } = this.platform.Characteristic;
+    switch (mode) {
+      case 'off':
+        return TargetHeatingCoolingState.OFF;
+      case 'heat':
+        return TargetHeatingCoolingState.HEAT;
+      case 'cool':
+        return TargetHeatingCoolingState.COOL;
+      default:
+        return TargetHeatingCoolingState.AUTO;
+    }
+  }
 
-      // Update firmware version if available
-      if (deviceStatus["about.firmware_version"]) {
-        this.firmwareVersion = deviceStatus["about.firmware_version"];
-        this.accessory.getService(this.platform.Service.AccessoryInformation)?.
-          updateCharacteristic(this.platform.Characteristic.FirmwareRevision, this.firmwareVersion);
-      }
+  /**
+   * React to events from the device state store
+   */
+  private handleStateEvent(event: DeviceStateEvent): void {
+    switch (event.type) {
+      case 'state':
+        this.applyState(event.state);
+        break;
+      case 'availability':
+        this.guard.setApiAvailable(
+          event.available, this.service, this.platform.Characteristic.CurrentTemperature, this.currentTemperature);
+        break;
+      // Errors are logged by the store; the last known state stays in place
+    }
+  }
 
-      // Update temperature values
-      if (deviceStatus["control.current_temperature_c"] !== undefined) {
-        this.currentTemperature = this.ensureValidTemperature(deviceStatus["control.current_temperature_c"]);
-        this.service.updateCharacteristic(
-          this.platform.Characteristic.CurrentTemperature, 
-          this.currentTemperature
-        );
-      }
-      
-      if (deviceStatus["control.target_temperature_c"] !== undefined) {
-        this.targetTemperature = this.ensureValidTemperature(deviceStatus["control.target_temperature_c"]);
-        this.service.updateCharacteristic(
-          this.platform.Characteristic.TargetTemperature, 
-          this.targetTemperature
-        );
-      }
+  /**
+   * Offer the model's range and step, narrowed by the device's configured range
+   */
+  private setTemperatureProps(): void {
+    this.service.getCharacteristic(this.platform.Characteristic.TargetTemperature).setProps(this.profile.props());
+  }
 
-      // Determine device power state
-      const powerState = deviceStatus["control.power"] || '';
-      const thermalStatus = deviceStatus["control.thermal_control_status"] || '';
-      
-      // Map SleepMe states to HomeKit states
-      let isDeviceOn = powerState === 'on';
-      
-      // If power state isn't explicitly available, use the thermal status
-      if (powerState === '') {
-        isDeviceOn = thermalStatus !== '' && thermalStatus !== 'standby';
-      }
-      
-      if (!isDeviceOn) {
-        // Device is off
-        this.currentHeatingState = this.platform.Characteristic.CurrentHeatingCoolingState.OFF;
-        this.targetHeatingState = this.platform.Characteristic.TargetHeatingCoolingState.OFF;
-        this.platform.log.debug(`Device is OFF (power: ${powerState}, thermal: ${thermalStatus})`);
-      } else {
-        // Device is on - determine heating/cooling state
-        if (thermalStatus === 'heating' || 
-            (thermalStatus === 'active' && this.targetTemperature > this.currentTemperature + 0.5)) {
-          // Actively heating
-          this.currentHeatingState = this.platform.Characteristic.CurrentHeatingCoolingState.HEAT;
-          this.platform.log.debug(`Device is HEATING (${this.currentTemperature}°C → ${this.targetTemperature}°C)`);
-        } else if (thermalStatus === 'cooling' || 
-                 (thermalStatus === 'active' && this.targetTemperature < this.currentTemperature - 0.5)) {
-          // Actively cooling
-          this.currentHeatingState = this.platform.Characteristic.CurrentHeatingCoolingState.COOL;
-          this.platform.log.debug(`Device is COOLING (${this.currentTemperature}°C → ${this.targetTemperature}°C)`);
-        } else {
-          // Device is idle or maintaining temperature
-          this.currentHeatingState = this.platform.Characteristic.CurrentHeatingCoolingState.HEAT;
-          this.platform.log.debug(`Device is maintaining temperature (${this.currentTemperature}°C ≈ ${this.targetTemperature}°C)`);
-        }
-        
-        // Update target state if it was OFF but the device is actually on
-        if (this.targetHeatingState === this.platform.Characteristic.TargetHeatingCoolingState.OFF) {
-          this.targetHeatingState = this.platform.Characteristic.TargetHeatingCoolingState.AUTO;
-        }
-      }
-      
-      // Update HomeKit characteristics
-      this.service.updateCharacteristic(
-        this.platform.Characteristic.CurrentHeatingCoolingState, 
-        this.currentHeatingState
-      );
-      
-      this.service.updateCharacteristic(
-        this.platform.Characteristic.TargetHeatingCoolingState, 
-        this.targetHeatingState
-      );
+  /**
+   * Update HomeKit from the latest device state
+   */
+  private applyState(state: DeviceState): void {
+    // Pick up a model identified from the status payload after the accessory was set up
+    if (this.profile.refresh()) {
+      this.setTemperatureProps();
+    }
 
-      this.platform.log.debug(
-        `Updated device status: Current=${this.currentTemperature.toFixed(1)}°C, ` +
-        `Target=${this.targetTemperature.toFixed(1)}°C, ` +
-        `State=${this.getHeatingStateName(this.currentHeatingState)}, ` +
-        `Power=${powerState}, ThermalStatus=${thermalStatus}`
-      );
-    } catch (error) {
-      if (error instanceof Error) {
-        this.platform.log.error(`Error updating device status: ${error.message}`);
-      } else {
-        this.platform.log.error(`Unknown error updating device status`);
-      }
-    } finally {
-      this.isUpdating = false;
+    // Update firmware version if available
+    if (state.firmwareVersion && state.firmwareVersion !== this.firmwareVersion) {
+      this.firmwareVersion = state.firmwareVersion;
+      this.accessory.getService(this.platform.Service.AccessoryInformation)?.
+        updateCharacteristic(this.platform.Characteristic.FirmwareRevision, this.firmwareVersion);
     }
+
+    // Update temperature values; the offset corrects the reported water temperature
+    this.currentTemperature = this.toDeviceTemperature(
+      state.currentTemperature + this.options.temperatureOffset,
+      DEVICE_MIN_TEMPERATURE,
+      DEVICE_MAX_TEMPERATURE,
+    ).toHomeKit(this.options.unit);
+    this.service.updateCharacteristic(
+      this.platform.Characteristic.CurrentTemperature, 
+      this.currentTemperature
+    );
+    
+    this.targetTemperature = this.toDeviceTemperature(state.targetTemperature).toHomeKit(this.options.unit);
+    this.service.updateCharacteristic(
+      this.platform.Characteristic.TargetTemperature, 
+      this.targetTemperature
+    );
+
+    // Map SleepMe states to HomeKit states through the shared thermal mapping
+    const thermalStatus = state.status.control.thermal_control_status;
+    const activity = thermalActivity(state);
+    const { CurrentHeatingCoolingState } = this.platform.Characteristic;
+
+    // A thermostat has no idle state; OFF while the target mode is on reads as idle in the Home app
+    this.currentHeatingState = activity === 'heating'
+      ? CurrentHeatingCoolingState.HEAT
+      : activity === 'cooling' ? CurrentHeatingCoolingState.COOL : CurrentHeatingCoolingState.OFF;
+    this.targetHeatingState = this.fromThermalMode(thermalMode(state, this.toThermalMode(this.targetHeatingState)));
+    this.platform.log.debug(
+      `Device is ${activity.toUpperCase()} (${this.currentTemperature}°C → ${this.targetTemperature}°C, thermal: ${thermalStatus})`,
+    );
+    
+    // Update HomeKit characteristics
+    this.service.updateCharacteristic(
+      this.platform.Characteristic.CurrentHeatingCoolingState, 
+      this.currentHeatingState
+    );
+    
+    this.service.updateCharacteristic(
+      this.platform.Characteristic.TargetHeatingCoolingState, 
+      this.targetHeatingState
+    );
+
+    this.maxModeSwitches.applyState(state);
+
+    this.platform.log.debug(
+      `Updated device status: Current=${this.currentTemperature.toFixed(1)}°C, ` +
+      `Target=${this.targetTemperature.toFixed(1)}°C, ` +
+      `State=${this.getHeatingStateName(this.currentHeatingState)}, ` +
+      `ThermalStatus=${thermalStatus}`
+    );
   }
 
   /**
@@ -406,25 +424,13 @@ export class SleepMePlatformAccessory {
   }
 
   /**
-   * Ensure temperature is within valid range
-   * Helper method to validate temperatures
+   * Clamp a Celsius value to a range, by default the one offered for the device,
+   * and round it to the model's step in the device's unit
    */
-  private ensureValidTemperature(temp: number): number {
-    if (typeof temp !== 'number' || isNaN(temp)) {
-      return this.targetTemperature || 21;
+  private toDeviceTemperature(celsius: number, min?: number, max?: number): Temperature {
+    if (typeof celsius !== 'number' || isNaN(celsius)) {
+      return Temperature.fromCelsius(this.targetTemperature || 21);
     }
-    
-    if (temp < this.MIN_TEMP) {
-      this.platform.log.warn(`Temperature ${temp}°C below minimum, using ${this.MIN_TEMP}°C`);
-      return this.MIN_TEMP;
-    }
-    
-    if (temp > this.MAX_TEMP) {
-      this.platform.log.warn(`Temperature ${temp}°C above maximum, using ${this.MAX_TEMP}°C`);
-      return this.MAX_TEMP;
-    }
-    
-    // Round to the nearest 0.5 degree
-    return Math.round(temp * 2) / 2;
+    return this.profile.toDevice(celsius, min, max);
   }
 }
\ No newline at end of file
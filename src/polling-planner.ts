@@ -0,0 +1,170 @@
+import { Logger } from 'homebridge';
+import { DeviceStatus, deviceSetpoint, isDeviceActive } from './device-status.js';
+import { maxModeOf } from './max-mode.js';
+
+/**
+ * How busy a device is, which decides how often it is worth polling
+ */
+export type PollingActivity = 'ramping' | 'active' | 'maxMode' | 'standby' | 'unknown';
+
+export interface PollingPlannerOptions {
+  requestsPerMinute: number; // API budget shared by every poller on one account
+  reservedPerMinute: number; // Headroom kept free for HomeKit writes and schedules
+  minInterval: number; // Never poll faster than this (milliseconds)
+}
+
+export const DEFAULT_POLLING_PLANNER_OPTIONS: PollingPlannerOptions = {
+  requestsPerMinute: 8,
+  reservedPerMinute: 2,
+  minInterval: 20000,
+};
+
+/**
+ * Preferred interval for each activity when the budget allows it (milliseconds)
+ */
+const PREFERRED_INTERVALS: Record<PollingActivity, number> = {
+  ramping: 20000,
+  active: 60000,
+  maxMode: 60000, // Runs flat out with no set point to arrive at
+  standby: 300000,
+  unknown: 60000,
+};
+
+/**
+ * Relative share of the budget each activity may claim
+ */
+const ACTIVITY_WEIGHTS: Record<PollingActivity, number> = {
+  ramping: 4,
+  active: 2,
+  maxMode: 2,
+  standby: 1,
+  unknown: 2,
+};
+
+const RAMPING_THRESHOLD = 2; // Degrees Celsius between water and target that count as ramping
+
+/**
+ * Classify a device status for polling purposes
+ */
+export function classifyActivity(status: DeviceStatus): PollingActivity {
+  if (!isDeviceActive(status)) {
+    return 'standby';
+  }
+  // The set point of a max mode is a marker, not a temperature to measure against
+  if (maxModeOf(status.control)) {
+    return 'maxMode';
+  }
+  const distance = Math.abs(deviceSetpoint(status.control).celsius - status.status.water_temperature_c);
+  return distance > RAMPING_THRESHOLD ? 'ramping' : 'active';
+}
+
+/**
+ * Plans poll intervals for every poller on one account: busy devices are
+ * polled more often, idle ones less, and together they stay within the
+ * per-minute request budget.
+ */
+export class PollingPlanner {
+  private readonly pollers = new Map<string, PollingActivity>(); // poller key -> last activity
+  private readonly fixedIntervals = new Map<string, number>(); // poller key -> configured interval
+  private readonly options: PollingPlannerOptions;
+
+  constructor(
+    private readonly log: Logger,
+    options: Partial<PollingPlannerOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_POLLING_PLANNER_OPTIONS, ...options };
+  }
+
+  /**
+   * Add a poller (e.g. one accessory of one device) to the shared budget
+   */
+  register(key: string): void {
+    if (!this.pollers.has(key)) {
+      this.pollers.set(key, 'unknown');
+    }
+  }
+
+  /**
+   * Remove a poller so its share goes back to the others
+   */
+  unregister(key: string): void {
+    this.pollers.delete(key);
+  }
+
+  /**
+   * Poll at a fixed interval instead of adapting to activity
+   * @param interval Milliseconds, or undefined to go back to adaptive polling
+   */
+  setFixedInterval(key: string, interval?: number): void {
+    if (interval === undefined) {
+      this.fixedIntervals.delete(key);
+    } else {
+      this.fixedIntervals.set(key, interval);
+    }
+  }
+
+  /**
+   * Record what a poller's device is doing after a successful poll
+   */
+  report(key: string, activity: PollingActivity): void {
+    if (this.pollers.has(key) && this.pollers.get(key) !== activity) {
+      this.log.debug(`[Polling] ${key} is now ${activity}, next poll in ${Math.round(this.intervalFor(activity) / 1000)}s`);
+    }
+    this.pollers.set(key, activity);
+  }
+
+  /**
+   * Delay until the next poll for a poller (milliseconds)
+   */
+  getInterval(key: string): number {
+    return this.fixedIntervals.get(key) ?? this.intervalFor(this.pollers.get(key) ?? 'unknown');
+  }
+
+  /**
+   * Warn when the registered pollers plus scheduled work cannot fit the budget,
+   * even if every device stays at its steady-state poll rate
+   * @param scheduledPerMinute Requests per minute expected from schedules and Warm Awake
+   */
+  checkCapacity(label: string, scheduledPerMinute = 0): boolean {
+    let pollsPerMinute = 0;
+    this.pollers.forEach((_, key) => {
+      pollsPerMinute += 60000 / (this.fixedIntervals.get(key) ?? PREFERRED_INTERVALS.active);
+    });
+    const demand = pollsPerMinute + scheduledPerMinute + this.options.reservedPerMinute;
+
+    if (demand > this.options.requestsPerMinute) {
+      this.log.warn(
+        `[Polling] ${label}: ${this.pollers.size} poller(s) and ${scheduledPerMinute} scheduled request(s) per minute ` +
+        `need about ${Math.ceil(demand)} requests per minute but the API allows ${this.options.requestsPerMinute}. ` +
+        'Devices will be polled less often than usual.',
+      );
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Interval for an activity: its preferred rate, slowed down when the
+   * shared budget cannot cover every poller's share
+   */
+  private intervalFor(activity: PollingActivity): number {
+    // Pollers with a fixed interval take their share off the top
+    let fixedPerMinute = 0;
+    let totalWeight = 0;
+    this.pollers.forEach((pollerActivity, key) => {
+      const fixed = this.fixedIntervals.get(key);
+      if (fixed !== undefined) {
+        fixedPerMinute += 60000 / fixed;
+      } else {
+        totalWeight += ACTIVITY_WEIGHTS[pollerActivity];
+      }
+    });
+
+    const budget = Math.max(1, this.options.requestsPerMinute - this.options.reservedPerMinute - fixedPerMinute);
+
+    const share = budget * ACTIVITY_WEIGHTS[activity] / Math.max(totalWeight, ACTIVITY_WEIGHTS[activity]);
+    const budgetInterval = 60000 / share;
+
+    return Math.round(Math.max(this.options.minInterval, PREFERRED_INTERVALS[activity], budgetInterval));
+  }
+}
@@ -0,0 +1,274 @@
+import { createHash } from 'crypto';
+import { Logger } from 'homebridge';
+
+/**
+ * Tuning knobs for the token bucket
+ */
+export interface RateLimiterOptions {
+  requestsPerMinute: number; // Bucket capacity, refilled evenly over one minute
+  minRequestDelay: number; // Baseline spacing between requests (milliseconds)
+  maxRequestDelay: number; // Upper bound for the penalty spacing (milliseconds)
+  quietPeriod: number; // Time without a 429 before the penalty halves (milliseconds)
+}
+
+/**
+ * Snapshot of a limiter's state, used for logging
+ */
+export interface RateLimitBudget {
+  available: number; // Whole requests that can be sent right now
+  capacity: number;
+  requestDelay: number; // Current spacing between requests (milliseconds)
+  cooldownRemaining: number; // Time left in a server-imposed pause (milliseconds)
+  serverRemaining?: number; // Last remaining count reported by the server
+}
+
+export const DEFAULT_RATE_LIMITER_OPTIONS: RateLimiterOptions = {
+  requestsPerMinute: 8, // Conservative (actual limit is 10)
+  minRequestDelay: 250,
+  maxRequestDelay: 5000,
+  quietPeriod: 5 * 60 * 1000,
+};
+
+/**
+ * Token bucket rate limiter scoped to a single API token.
+ * All SleepMeApi instances using the same token share one limiter,
+ * so the budget reflects what the server actually counts.
+ */
+export class RateLimiter {
+  private static readonly limiters = new Map<string, RateLimiter>();
+
+  private tokens: number;
+  private lastRefill = Date.now();
+  private requestDelay: number;
+  private lastRequestTime = 0;
+  private lastPenaltyTime = 0;
+  private cooldownUntil = 0;
+  private serverRemaining?: number;
+  private acquireChain = Promise.resolve();
+
+  private constructor(
+    private readonly log: Logger,
+    private readonly options: RateLimiterOptions,
+  ) {
+    this.tokens = options.requestsPerMinute;
+    this.requestDelay = options.minRequestDelay;
+  }
+
+  /**
+   * Get the shared limiter for an API token, creating it on first use
+   */
+  static forToken(
+    apiToken: string,
+    log: Logger,
+    options: Partial<RateLimiterOptions> = {},
+  ): RateLimiter {
+    // Key by hash so the raw token is never held as a map key
+    const key = createHash('sha256').update(apiToken).digest('hex');
+    let limiter = RateLimiter.limiters.get(key);
+
+    if (!limiter) {
+      limiter = new RateLimiter(log, { ...DEFAULT_RATE_LIMITER_OPTIONS, ...options });
+      RateLimiter.limiters.set(key, limiter);
+    }
+
+    return limiter;
+  }
+
+  /**
+   * Wait until a request may be sent and consume one token
+   */
+  acquire(): Promise<void> {
+    const next = this.acquireChain.then(() => this.waitForToken());
+    // Keep the chain alive even if a wait is interrupted
+    this.acquireChain = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Update the budget from rate limit headers on a response
+   */
+  recordResponse(headers: Record<string, string>): void {
+    const remaining = this.parseNumberHeader(headers, ['x-ratelimit-remaining', 'ratelimit-remaining']);
+    if (remaining === undefined) {
+      return;
+    }
+
+    this.serverRemaining = remaining;
+    this.refill();
+    // Never believe we have more budget than the server says we do
+    this.tokens = Math.min(this.tokens, remaining);
+
+    if (remaining <= 0) {
+      const resetDelay = this.parseResetDelay(headers);
+      if (resetDelay !== undefined) {
+        this.cooldownUntil = Math.max(this.cooldownUntil, Date.now() + resetDelay);
+        this.log.debug(`[API] Server reports no remaining requests, pausing for ${resetDelay}ms`);
+      }
+    }
+  }
+
+  /**
+   * Apply a penalty after the server answered 429 Too Many Requests
+   */
+  recordRateLimited(headers: Record<string, string> = {}): void {
+    const now = Date.now();
+    const retryAfter = this.parseRetryAfter(headers) ?? this.parseResetDelay(headers) ?? 60000;
+
+    this.requestDelay = Math.min(this.options.maxRequestDelay, this.requestDelay * 2);
+    this.lastPenaltyTime = now;
+    this.cooldownUntil = Math.max(this.cooldownUntil, now + retryAfter);
+    this.tokens = 0;
+    this.lastRefill = now;
+
+    this.log.warn(
+      `[API] Rate limit hit! Increasing delay to ${this.requestDelay}ms ` +
+      `and pausing requests for ${Math.ceil(retryAfter / 1000)} seconds.`,
+    );
+  }
+
+  /**
+   * Get the current budget for logging
+   */
+  getBudget(): RateLimitBudget {
+    this.refill();
+    this.decayPenalty();
+
+    return {
+      available: Math.floor(this.tokens),
+      capacity: this.options.requestsPerMinute,
+      requestDelay: this.requestDelay,
+      cooldownRemaining: Math.max(0, this.cooldownUntil - Date.now()),
+      serverRemaining: this.serverRemaining,
+    };
+  }
+
+  /**
+   * Format the current budget as a short log string
+   */
+  describeBudget(): string {
+    const budget = this.getBudget();
+    let text = `${budget.available}/${budget.capacity} requests available, delay ${budget.requestDelay}ms`;
+    if (budget.cooldownRemaining > 0) {
+      text += `, cooldown ${budget.cooldownRemaining}ms`;
+    }
+    if (budget.serverRemaining !== undefined) {
+      text += `, server remaining ${budget.serverRemaining}`;
+    }
+    return text;
+  }
+
+  /**
+   * Block until cooldown has passed, a token is available and spacing is respected
+   */
+  private async waitForToken(): Promise<void> {
+    // Respect any server-imposed pause first
+    const cooldown = this.cooldownUntil - Date.now();
+    if (cooldown > 0) {
+      this.log.debug(`[API] In rate limit cooldown period, waiting ${cooldown}ms before next request`);
+      await this.sleep(cooldown);
+    }
+
+    this.refill();
+    this.decayPenalty();
+
+    if (this.tokens < 1) {
+      const refillRate = this.options.requestsPerMinute / 60000; // tokens per millisecond
+      const delay = Math.ceil((1 - this.tokens) / refillRate);
+      this.log.debug(`[API] Rate limit budget exhausted (${this.describeBudget()}). Waiting ${delay}ms.`);
+      await this.sleep(delay);
+      this.refill();
+    }
+
+    // Always keep a minimum gap between requests
+    const sinceLast = Date.now() - this.lastRequestTime;
+    if (sinceLast < this.requestDelay) {
+      await this.sleep(this.requestDelay - sinceLast);
+    }
+
+    this.tokens = Math.max(0, this.tokens - 1);
+    this.lastRequestTime = Date.now();
+  }
+
+  /**
+   * Add tokens for the time elapsed since the last refill
+   */
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    if (elapsed <= 0) {
+      return;
+    }
+
+    const refillRate = this.options.requestsPerMinute / 60000;
+    this.tokens = Math.min(this.options.requestsPerMinute, this.tokens + elapsed * refillRate);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Halve the penalty delay for every quiet period without a 429
+   */
+  private decayPenalty(): void {
+    if (this.requestDelay <= this.options.minRequestDelay) {
+      return;
+    }
+
+    const quietTime = Date.now() - this.lastPenaltyTime;
+    const periods = Math.floor(quietTime / this.options.quietPeriod);
+    if (periods < 1) {
+      return;
+    }
+
+    const previous = this.requestDelay;
+    this.requestDelay = Math.max(this.options.minRequestDelay, Math.floor(this.requestDelay / Math.pow(2, periods)));
+    this.lastPenaltyTime += periods * this.options.quietPeriod;
+    this.log.debug(`[API] No rate limit errors recently, reducing delay from ${previous}ms to ${this.requestDelay}ms`);
+  }
+
+  /**
+   * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+   */
+  private parseRetryAfter(headers: Record<string, string>): number | undefined {
+    const value = headers['retry-after'];
+    if (!value) {
+      return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Parse a rate limit reset header (epoch seconds or seconds from now) into milliseconds
+   */
+  private parseResetDelay(headers: Record<string, string>): number | undefined {
+    const reset = this.parseNumberHeader(headers, ['x-ratelimit-reset', 'ratelimit-reset']);
+    if (reset === undefined) {
+      return undefined;
+    }
+
+    // Values this large are absolute timestamps rather than a delay
+    if (reset > 1e9) {
+      return Math.max(0, reset * 1000 - Date.now());
+    }
+    return Math.max(0, reset * 1000);
+  }
+
+  private parseNumberHeader(headers: Record<string, string>, names: string[]): number | undefined {
+    for (const name of names) {
+      const value = Number(headers[name]);
+      if (headers[name] !== undefined && !isNaN(value)) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
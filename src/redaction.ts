@@ -0,0 +1,114 @@
+import { createHash } from 'crypto';
+import { Logger } from 'homebridge';
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Object keys whose values are always masked when objects are logged
+ */
+const SECRET_KEYS = /^(authorization|api[-_]?token|token|access[-_]?token|password|secret)$/i;
+
+/**
+ * Bearer tokens in free text, e.g. a logged Authorization header
+ */
+const BEARER_PATTERN = /(Bearer\s+)[A-Za-z0-9._~+/=-]+/gi;
+
+const MIN_SECRET_LENGTH = 4; // Shorter "secrets" would mask ordinary words
+
+export interface RedactorOptions {
+  hashDeviceIds: boolean; // Replace known device IDs with a short stable hash
+}
+
+/**
+ * Masks API tokens, and optionally device IDs, in text and objects before they are logged
+ */
+export class Redactor {
+  private readonly secrets: (() => string)[] = [];
+  private readonly deviceIds = new Map<string, string>(); // deviceId -> hashed form
+
+  constructor(private readonly options: RedactorOptions = { hashDeviceIds: false }) {}
+
+  /**
+   * Mask a secret wherever it appears
+   * @param secret The value, or a function returning the current value for secrets that can change
+   */
+  addSecret(secret: string | (() => string)): void {
+    this.secrets.push(typeof secret === 'function' ? secret : () => secret);
+  }
+
+  /**
+   * Hash a device ID wherever it appears, if device ID hashing is enabled
+   */
+  addDeviceId(deviceId: string): void {
+    if (this.options.hashDeviceIds && deviceId && !this.deviceIds.has(deviceId)) {
+      const hash = createHash('sha256').update(deviceId).digest('hex').substring(0, 8);
+      this.deviceIds.set(deviceId, `device-${hash}`);
+    }
+  }
+
+  /**
+   * Redact a log message
+   */
+  redact(text: string): string {
+    let result = text.replace(BEARER_PATTERN, `$1${REDACTED}`);
+
+    for (const secret of this.secrets) {
+      const value = secret();
+      if (value && value.length >= MIN_SECRET_LENGTH) {
+        result = result.split(value).join(REDACTED);
+      }
+    }
+
+    this.deviceIds.forEach((hashed, deviceId) => {
+      result = result.split(deviceId).join(hashed);
+    });
+
+    return result;
+  }
+
+  /**
+   * Redacted copy of a value about to be logged, masking secret keys in objects
+   */
+  redactValue(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return this.redact(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item));
+    }
+    if (value instanceof Error) {
+      return this.redact(value.message);
+    }
+    if (value && typeof value === 'object') {
+      const copy: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        copy[this.redact(key)] = SECRET_KEYS.test(key) ? REDACTED : this.redactValue(item);
+      }
+      return copy;
+    }
+    return value;
+  }
+}
+
+type LogLevel = Parameters<Logger['log']>[0];
+
+/**
+ * Wrap a logger so every message and parameter passes through the redactor
+ */
+export function createRedactingLogger(log: Logger, redactor: Redactor): Logger {
+  const redactArguments = (message: unknown, parameters: unknown[]): [string, ...unknown[]] => [
+    typeof message === 'string' ? redactor.redact(message) : redactor.redactValue(message) as string,
+    ...parameters.map(parameter => redactor.redactValue(parameter)),
+  ];
+
+  return {
+    prefix: log.prefix,
+    info: (message: string, ...parameters: unknown[]) => log.info(...redactArguments(message, parameters)),
+    success: (message: string, ...parameters: unknown[]) => log.success(...redactArguments(message, parameters)),
+    warn: (message: string, ...parameters: unknown[]) => log.warn(...redactArguments(message, parameters)),
+    error: (message: string, ...parameters: unknown[]) => log.error(...redactArguments(message, parameters)),
+    debug: (message: string, ...parameters: unknown[]) => log.debug(...redactArguments(message, parameters)),
+    log: (level: LogLevel, message: string, ...parameters: unknown[]) =>
+      log.log(level, ...redactArguments(message, parameters)),
+  } as Logger;
+}
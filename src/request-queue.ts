@@ -0,0 +1,154 @@
+import { Logger } from 'homebridge';
+import { RequestDroppedError } from './api-errors.js';
+
+/**
+ * Priority classes for API requests, most urgent first
+ */
+export enum RequestPriority {
+  INTERACTIVE = 0, // HomeKit writes the user is waiting on
+  SCHEDULED = 1, // Schedules, warm awake and discovery
+  POLL = 2, // Background status polling and verification reads
+}
+
+export interface EnqueueOptions {
+  priority?: RequestPriority;
+  key?: string; // Identifies equivalent requests, e.g. `status:<deviceId>`
+  merge?: boolean; // Share the result of an equivalent request that is still queued
+  staleAfter?: number; // Drop the request if it is still queued after this long (milliseconds)
+}
+
+interface QueueEntry {
+  sequence: number;
+  priority: RequestPriority;
+  key?: string;
+  merge: boolean;
+  enqueuedAt: number;
+  staleAfter?: number;
+  requestFn: () => Promise<unknown>;
+  promise: Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * Executes requests one at a time, most urgent priority first and FIFO within
+ * a priority. Queued polls can be merged or dropped once they go stale.
+ */
+export class RequestQueue {
+  private pending: QueueEntry[] = [];
+  private sequence = 0;
+  private running = false;
+
+  constructor(
+    private readonly log: Logger,
+    private readonly executor: (requestFn: () => Promise<unknown>) => Promise<unknown>,
+  ) {}
+
+  /**
+   * Number of requests waiting to run
+   */
+  get size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Add a request to the queue and resolve with its result
+   */
+  enqueue<T>(requestFn: () => Promise<T>, options: EnqueueOptions = {}): Promise<T> {
+    const priority = options.priority ?? RequestPriority.POLL;
+
+    if (options.merge && options.key) {
+      const existing = this.pending.find(entry => entry.merge && entry.key === options.key);
+      if (existing) {
+        // Promote the queued request if the new caller is more urgent
+        if (priority < existing.priority) {
+          existing.priority = priority;
+        }
+        // A caller that needs the result must not have it dropped as stale
+        if (options.staleAfter === undefined) {
+          existing.staleAfter = undefined;
+        }
+        this.log.debug(`[API] Merged request ${options.key} with one already queued`);
+        return existing.promise as Promise<T>;
+      }
+    }
+
+    let resolve!: (value: unknown) => void;
+    let reject!: (reason: unknown) => void;
+    const promise = new Promise<unknown>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+
+    this.pending.push({
+      sequence: this.sequence++,
+      priority,
+      key: options.key,
+      merge: options.merge === true,
+      enqueuedAt: Date.now(),
+      staleAfter: options.staleAfter,
+      requestFn,
+      promise,
+      resolve,
+      reject,
+    });
+
+    this.drain();
+    return promise as Promise<T>;
+  }
+
+  /**
+   * Run queued requests until the queue is empty
+   */
+  private async drain(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      let entry = this.next();
+      while (entry) {
+        try {
+          entry.resolve(await this.executor(entry.requestFn));
+        } catch (error) {
+          entry.reject(error);
+        }
+        entry = this.next();
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Take the most urgent request, discarding any that went stale while waiting
+   */
+  private next(): QueueEntry | undefined {
+    const now = Date.now();
+
+    this.pending = this.pending.filter(entry => {
+      if (entry.staleAfter !== undefined && now - entry.enqueuedAt > entry.staleAfter) {
+        entry.reject(new RequestDroppedError(`Request ${entry.key ?? entry.sequence} dropped: stale after ${now - entry.enqueuedAt}ms`));
+        return false;
+      }
+      return true;
+    });
+
+    if (this.pending.length === 0) {
+      return undefined;
+    }
+
+    let bestIndex = 0;
+    for (let i = 1; i < this.pending.length; i++) {
+      const candidate = this.pending[i];
+      const best = this.pending[bestIndex];
+      if (candidate.priority < best.priority ||
+          (candidate.priority === best.priority && candidate.sequence < best.sequence)) {
+        bestIndex = i;
+      }
+    }
+
+    return this.pending.splice(bestIndex, 1)[0];
+  }
+}
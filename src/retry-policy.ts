@@ -0,0 +1,103 @@
+import { Logger } from 'homebridge';
+import { NetworkError, RateLimitError, ServerError, toApiError } from './api-errors.js';
+
+/**
+ * Controls how transient API failures are retried
+ */
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts, including the first one
+  initialDelay: number; // Delay before the first retry (milliseconds)
+  maxDelay: number; // Upper bound for a single backoff delay (milliseconds)
+  multiplier: number; // Backoff growth factor per attempt
+  jitter: number; // Fraction of each delay that is randomized (0-1)
+  maxElapsedTime: number; // Give up once this much time has passed (milliseconds)
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  multiplier: 2,
+  jitter: 0.5,
+  maxElapsedTime: 120000,
+};
+
+/**
+ * Merge user supplied settings over the defaults, ignoring invalid values
+ */
+export function resolveRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  const policy = { ...DEFAULT_RETRY_POLICY };
+
+  for (const key of Object.keys(DEFAULT_RETRY_POLICY) as (keyof RetryPolicy)[]) {
+    const value = overrides[key];
+    if (typeof value === 'number' && !isNaN(value) && value >= 0) {
+      policy[key] = value;
+    }
+  }
+
+  policy.maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+  policy.jitter = Math.min(1, policy.jitter);
+  return policy;
+}
+
+/**
+ * Whether an error is worth retrying: dropped connections, timeouts,
+ * server errors and rate limiting. Client errors never succeed on retry.
+ */
+export function isRetryableError(error: unknown): boolean {
+  const apiError = toApiError(error);
+  return apiError instanceof NetworkError ||
+    apiError instanceof ServerError ||
+    apiError instanceof RateLimitError;
+}
+
+/**
+ * Run an operation, retrying transient failures with exponential backoff and jitter
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  log: Logger,
+  label: string,
+): Promise<T> {
+  const startTime = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const apiError = toApiError(error);
+      let delay = backoffDelay(policy, attempt);
+
+      // Never retry a rate limited request sooner than the server asked
+      if (apiError instanceof RateLimitError && apiError.retryAfter !== undefined) {
+        delay = Math.max(delay, apiError.retryAfter);
+      }
+
+      const elapsed = Date.now() - startTime;
+      if (elapsed + delay > policy.maxElapsedTime) {
+        log.debug(`[API] ${label} giving up after ${attempt} attempts (${elapsed}ms elapsed)`);
+        throw error;
+      }
+
+      log.warn(
+        `[API] ${label} failed (${apiError.name}: ${apiError.message}), ` +
+        `retrying in ${delay}ms (attempt ${attempt + 1}/${policy.maxAttempts})`,
+      );
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Exponential backoff for a given attempt with +/- jitter applied
+ */
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const base = Math.min(policy.maxDelay, policy.initialDelay * Math.pow(policy.multiplier, attempt - 1));
+  const spread = base * policy.jitter;
+  return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
+}
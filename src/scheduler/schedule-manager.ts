@@ -1,7 +1,12 @@
-import { Logger, PlatformConfig } from 'homebridge';
+import { Logger } from 'homebridge';
 import { v4 as uuidv4 } from 'uuid';
-import { SleepMeApi } from '../sleepme-api.js';
-import { Schedule, TimeEntry, DayOfWeek, JobRef } from './types.js';
+import { RequestPriority } from '../request-queue.js';
+import { AuthenticationError, DeviceNotFoundError, RateLimitError } from '../api-errors.js';
+import { SleepMePlatformConfig } from '../platform-config.js';
+import { isValidTime } from '../config-validator.js';
+import { acceptsSetpoint, resolveTarget } from '../device-capabilities.js';
+import { describeTarget, isMaxMode } from '../max-mode.js';
+import { Schedule, TimeEntry, DayOfWeek, JobRef, DeviceResolver } from './types.js';
 
 export class ScheduleManager {
   private schedules: Map<string, Schedule[]> = new Map(); // deviceId -> schedules
@@ -9,8 +14,8 @@ export class ScheduleManager {
   private deviceMap: Map<string, string> = new Map(); // deviceId -> deviceName
 
   constructor(
-    private readonly config: PlatformConfig,
-    private readonly apiService: SleepMeApi,
+    private readonly config: SleepMePlatformConfig,
+    private readonly resolveDevice: DeviceResolver,
     private readonly log: Logger
   ) {
     this.log.info('Initializing Schedule Manager');
@@ -36,6 +41,7 @@ export class ScheduleManager {
 
   /**
    * Parse configuration into schedule objects
+   * Invalid entries are skipped; the startup config report lists them with their paths.
    */
   private parseConfig(): void {
     // Clear existing schedules
@@ -54,7 +60,7 @@ export class ScheduleManager {
       const deviceSchedules: Schedule[] = [];
 
       // Parse each schedule in the config
-      schedulesConfig.forEach((scheduleConfig: any, index: number) => {
+      schedulesConfig.forEach((scheduleConfig, index) => {
         try {
           // Skip disabled schedules
           if (scheduleConfig.enabled === false) {
@@ -71,36 +77,38 @@ export class ScheduleManager {
 
           // Skip if no days specified
           if (days.length === 0) {
-            this.log.warn(`Schedule ${index + 1} has no days specified, skipping`);
+            this.log.debug(`Skipping scheduler.schedules[${index}]: no days specified`);
             return;
           }
 
           // Process times
           const times: TimeEntry[] = [];
           if (Array.isArray(scheduleConfig.times)) {
-            scheduleConfig.times.forEach((timeEntry: any) => {
-              if (typeof timeEntry.time === 'string' && typeof timeEntry.temperature === 'number') {
+            scheduleConfig.times.forEach((timeEntry, timeIndex) => {
+              // A max mode takes the place of the temperature
+              const target = isMaxMode(timeEntry?.maxMode) ? timeEntry.maxMode : timeEntry?.temperature;
+              if (isValidTime(timeEntry?.time) && (typeof target === 'number' || isMaxMode(target))) {
                 times.push({
                   time: timeEntry.time,
-                  temperature: timeEntry.temperature,
+                  temperature: target,
                   power: timeEntry.power || 'no_change'
                 });
               } else {
-                this.log.warn(`Invalid time entry in schedule ${index + 1}, skipping`);
+                this.log.debug(`Skipping scheduler.schedules[${index}].times[${timeIndex}]: invalid time or temperature`);
               }
             });
           }
 
           // Skip if no times specified
           if (times.length === 0) {
-            this.log.warn(`Schedule ${index + 1} has no times specified, skipping`);
+            this.log.debug(`Skipping scheduler.schedules[${index}]: no valid times`);
             return;
           }
 
           // Create schedule object
           const schedule: Schedule = {
             id: scheduleConfig.id || uuidv4(),
-            days: days as DayOfWeek[],
+            days,
             times,
             enabled: true,
             name: scheduleConfig.name || `Schedule ${index + 1}`
@@ -185,7 +193,7 @@ export class ScheduleManager {
               
               // Log next occurrence for debugging
               const formattedDate = nextOccurrence.toLocaleString();
-              this.log.debug(`Scheduled ${timeEntry.temperature}°C for ${deviceName} at ${formattedDate} (${delay}ms from now)`);
+              this.log.debug(`Scheduled ${describeTarget(timeEntry.temperature)} for ${deviceName} at ${formattedDate} (${delay}ms from now)`);
             } catch (error) {
               this.log.error(`Error setting up schedule for ${day} ${timeEntry.time}: ${error}`);
             }
@@ -200,26 +208,63 @@ export class ScheduleManager {
   /**
    * Execute a scheduled temperature change
    */
-  private async executeScheduledAction(deviceId: string, timeEntry: TimeEntry): Promise<void> {
+  private async executeScheduledAction(deviceId: string, timeEntry: TimeEntry, isRetry = false): Promise<void> {
     const deviceName = this.deviceMap.get(deviceId) || deviceId;
-    this.log.info(`Executing scheduled temperature change for ${deviceName}: ${timeEntry.temperature}°C (power: ${timeEntry.power})`);
+    this.log.info(`Executing scheduled temperature change for ${deviceName}: ${describeTarget(timeEntry.temperature)} (power: ${timeEntry.power})`);
+    
+    const services = this.resolveDevice(deviceId);
+    if (!services) {
+      this.log.warn(`Skipping scheduled change for ${deviceName}: no account owns this device`);
+      return;
+    }
+    
+    // Keep the scheduled temperature within what this model accepts
+    const { capabilities } = services;
+    const { temperature, maxMode } = resolveTarget(capabilities, timeEntry.temperature);
+    if (isMaxMode(timeEntry.temperature) ? !maxMode : !acceptsSetpoint(capabilities, timeEntry.temperature)) {
+      this.log.warn(
+        `Scheduled ${describeTarget(timeEntry.temperature)} is not available on ${deviceName} ` +
+        `(${capabilities.modelName}, ${capabilities.minTemperature}-${capabilities.maxTemperature}°C), using ${temperature}°C`,
+      );
+    }
     
     try {
-      // Handle power state if specified
-      if (timeEntry.power === 'on') {
-        await this.apiService.turnDeviceOn(deviceId, timeEntry.temperature);
+      // Handle power state if specified; a max mode always turns the device on
+      if (maxMode && timeEntry.power !== 'off') {
+        await services.api.setMaxMode(deviceId, maxMode, RequestPriority.SCHEDULED);
+      } else if (timeEntry.power === 'on') {
+        await services.api.turnDeviceOn(deviceId, temperature, RequestPriority.SCHEDULED);
       } else if (timeEntry.power === 'off') {
-        await this.apiService.turnDeviceOff(deviceId);
+        await services.api.turnDeviceOff(deviceId, RequestPriority.SCHEDULED);
       } else {
         // Just update temperature
-        await this.apiService.setDeviceSettings(deviceId, {
-          "control.set_temperature_c": timeEntry.temperature
-        });
+        await services.api.setDeviceSettings(deviceId, {
+          "control.set_temperature_c": temperature
+        }, RequestPriority.SCHEDULED);
       }
       
       this.log.info(`Successfully applied scheduled change for ${deviceName}`);
     } catch (error) {
-      this.log.error(`Error executing scheduled change for ${deviceName}: ${error}`);
+      if (error instanceof RateLimitError && !isRetry) {
+        // Try once more when the rate limit window has passed
+        const retryDelay = error.retryAfter ?? 60000;
+        this.log.warn(`Scheduled change for ${deviceName} was rate limited, retrying in ${Math.ceil(retryDelay / 1000)}s`);
+        const retryId = `retry-${deviceId}-${timeEntry.time.replace(':', '')}`;
+        this.jobs.set(retryId, {
+          type: 'schedule',
+          id: retryId,
+          timeoutId: setTimeout(() => {
+            this.jobs.delete(retryId);
+            this.executeScheduledAction(deviceId, timeEntry, true);
+          }, retryDelay)
+        });
+      } else if (error instanceof AuthenticationError) {
+        this.log.error(`Scheduled change for ${deviceName} failed: the API token was rejected`);
+      } else if (error instanceof DeviceNotFoundError) {
+        this.log.error(`Scheduled change for ${deviceName} failed: device no longer exists`);
+      } else {
+        this.log.error(`Error executing scheduled change for ${deviceName}: ${error}`);
+      }
     }
   }
 
@@ -1,7 +1,8 @@
-import { Logger, PlatformConfig } from 'homebridge';
-import { SleepMeApi } from '../sleepme-api.js';
+import { Logger } from 'homebridge';
+import { SleepMePlatformConfig } from '../platform-config.js';
 import { ScheduleManager } from './schedule-manager.js';
 import { WarmAwakeManager } from './warm-awake-manager.js';
+import { DeviceResolver } from './types.js';
 
 export class SchedulerService {
   private scheduleManager: ScheduleManager;
@@ -9,15 +10,15 @@ export class SchedulerService {
   private initialized = false;
 
   constructor(
-    private readonly config: PlatformConfig,
-    private readonly apiService: SleepMeApi,
+    private readonly config: SleepMePlatformConfig,
+    private readonly resolveDevice: DeviceResolver,
     private readonly log: Logger
   ) {
     this.log.info('Creating Scheduler Service');
     
     // Create managers
-    this.scheduleManager = new ScheduleManager(config, apiService, log);
-    this.warmAwakeManager = new WarmAwakeManager(config, apiService, log);
+    this.scheduleManager = new ScheduleManager(config, resolveDevice, log);
+    this.warmAwakeManager = new WarmAwakeManager(config, resolveDevice, log);
   }
 
   /**
@@ -25,12 +26,12 @@ export class SchedulerService {
    */
   public initialize(deviceMap: Map<string, string>): void {
     if (this.initialized) {
-      this.log.warn('Scheduler Service already initialized, skipping');
-      return;
+      // Devices were added or removed; rebuild the jobs for the new set
+      this.log.info(`Re-initializing Scheduler Service with ${deviceMap.size} devices`);
+    } else {
+      this.log.info('Initializing Scheduler Service');
     }
 
-    this.log.info('Initializing Scheduler Service');
-
     // Check if scheduling is enabled
     if (this.config.enableScheduling !== true) {
       this.log.info('Scheduling is disabled in config, not initializing');
@@ -40,6 +41,7 @@ export class SchedulerService {
     // Ensure we have devices
     if (deviceMap.size === 0) {
       this.log.warn('No devices available for scheduling');
+      this.shutdown();
       return;
     }
 
@@ -1,12 +1,31 @@
+import { SleepMeApi } from '../sleepme-api.js';
+import { DeviceStateStore } from '../device-state-store.js';
+import { DeviceCapabilities } from '../device-capabilities.js';
+import { MaxMode, SetpointTarget } from '../max-mode.js';
+
 /**
  * Scheduler type definitions
  */
 
+/**
+ * API client and state store of the account that owns a device, and what the device accepts
+ */
+export interface DeviceServices {
+  api: SleepMeApi;
+  stateStore: DeviceStateStore;
+  capabilities: DeviceCapabilities; // For checking scheduled temperatures against the model's range
+}
+
+/**
+ * Looks up the services for a device
+ */
+export type DeviceResolver = (deviceId: string) => DeviceServices | undefined;
+
 export type DayOfWeek = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday' | 'everyday';
 
 export interface TimeEntry {
   time: string; // Format: "HH:MM" (24-hour)
-  temperature: number;
+  temperature: SetpointTarget;
   power?: 'on' | 'off' | 'no_change';
 }
 
@@ -22,7 +41,7 @@ export interface WarmAwakeAlarm {
   id: string;
   days: DayOfWeek[];
   time: string; // Format: "HH:MM" (24-hour)
-  targetTemperature: number;
+  targetTemperature: SetpointTarget;
   duration: number; // minutes
   enabled: boolean;
   name?: string;
@@ -35,6 +54,7 @@ export interface WarmAwakeSettings {
 
 export interface WarmAwakeSequence {
   id: string;
+  deviceId: string;
   startTime: Date;
   endTime: Date;
   currentStep: number;
@@ -43,6 +63,7 @@ export interface WarmAwakeSequence {
   endTemp: number;
   tempIncrement: number;
   intervalId: NodeJS.Timeout | null;
+  unsubscribe?: () => void; // Stops following the device state
 }
 
 export interface DeviceScheduling {
@@ -52,10 +73,52 @@ export interface DeviceScheduling {
   warmAwake: WarmAwakeSettings;
 }
 
+/**
+ * Schedule as written in config.json; parsed into a Schedule once validated
+ */
+export interface ScheduleConfig {
+  id?: string;
+  name?: string;
+  enabled?: boolean;
+  days?: DayOfWeek[];
+  times?: TimeEntryConfig[];
+}
+
+/**
+ * Scheduled time as written in config.json
+ */
+export interface TimeEntryConfig {
+  time?: string; // Format: "HH:MM" (24-hour)
+  temperature?: number; // Celsius
+  maxMode?: MaxMode; // Run at full power instead of a temperature
+  power?: 'on' | 'off' | 'no_change';
+}
+
+/**
+ * Warm Awake alarm as written in config.json
+ */
+export interface WarmAwakeAlarmConfig {
+  id?: string;
+  name?: string;
+  enabled?: boolean;
+  days?: DayOfWeek[];
+  time?: string; // Format: "HH:MM" (24-hour)
+  targetTemperature?: number; // Celsius
+  maxMode?: MaxMode; // End in a max mode instead of at a temperature
+  duration?: number; // minutes, 5-60
+}
+
+export interface WarmAwakeConfig {
+  enabled?: boolean;
+  alarms?: WarmAwakeAlarmConfig[];
+}
+
+/**
+ * The `scheduler` block of the platform config
+ */
 export interface SchedulerConfig {
-  enableScheduling: boolean;
-  schedules: any[]; // Raw config schedule objects
-  warmAwake: any; // Raw config warm awake object
+  schedules?: ScheduleConfig[];
+  warmAwake?: WarmAwakeConfig;
 }
 
 export interface JobRef {
@@ -1,7 +1,12 @@
-import { Logger, PlatformConfig } from 'homebridge';
+import { Logger } from 'homebridge';
 import { v4 as uuidv4 } from 'uuid';
-import { SleepMeApi } from '../sleepme-api.js';
-import { WarmAwakeAlarm, WarmAwakeSettings, WarmAwakeSequence, DayOfWeek, JobRef } from './types.js';
+import { RequestPriority } from '../request-queue.js';
+import { AuthenticationError, DeviceNotFoundError, RateLimitError } from '../api-errors.js';
+import { SleepMePlatformConfig } from '../platform-config.js';
+import { isValidTime } from '../config-validator.js';
+import { acceptsSetpoint, clampSetpoint, resolveTarget } from '../device-capabilities.js';
+import { describeTarget, isMaxMode } from '../max-mode.js';
+import { WarmAwakeAlarm, WarmAwakeSettings, WarmAwakeSequence, DayOfWeek, JobRef, DeviceResolver } from './types.js';
 
 export class WarmAwakeManager {
   private warmAwakeSettings: Map<string, WarmAwakeSettings> = new Map(); // deviceId -> settings
@@ -10,8 +15,8 @@ export class WarmAwakeManager {
   private deviceMap: Map<string, string> = new Map(); // deviceId -> deviceName
 
   constructor(
-    private readonly config: PlatformConfig,
-    private readonly apiService: SleepMeApi,
+    private readonly config: SleepMePlatformConfig,
+    private readonly resolveDevice: DeviceResolver,
     private readonly log: Logger
   ) {
     this.log.info('Initializing Warm Awake Manager');
@@ -22,6 +27,14 @@ export class WarmAwakeManager {
    */
   public initialize(deviceMap: Map<string, string>): void {
     this.deviceMap = deviceMap;
+
+    // Sequences already running keep going unless their device is gone
+    this.activeSequences.forEach((sequence, sequenceId) => {
+      if (!deviceMap.has(sequence.deviceId)) {
+        this.stopSequence(sequenceId);
+      }
+    });
+
     this.parseConfig();
     this.setupWarmAwakeJobs();
     this.log.info(`Warm Awake Manager initialized with settings for ${this.warmAwakeSettings.size} devices`);
@@ -38,6 +51,7 @@ export class WarmAwakeManager {
 
   /**
    * Parse configuration into warm awake settings
+   * Invalid alarms are skipped; the startup config report lists them with their paths.
    */
   private parseConfig(): void {
     // Clear existing settings
@@ -58,7 +72,7 @@ export class WarmAwakeManager {
         const alarms: WarmAwakeAlarm[] = [];
         
         if (Array.isArray(warmAwakeConfig.alarms)) {
-          warmAwakeConfig.alarms.forEach((alarmConfig: any, index: number) => {
+          warmAwakeConfig.alarms.forEach((alarmConfig, index) => {
             try {
               // Skip disabled alarms
               if (alarmConfig.enabled === false) {
@@ -75,28 +89,29 @@ export class WarmAwakeManager {
 
               // Skip if no days specified
               if (days.length === 0) {
-                this.log.warn(`Warm Awake alarm ${index + 1} has no days specified, skipping`);
+                this.log.debug(`Skipping scheduler.warmAwake.alarms[${index}]: no days specified`);
                 return;
               }
 
               // Validate time
-              if (!alarmConfig.time || typeof alarmConfig.time !== 'string') {
-                this.log.warn(`Warm Awake alarm ${index + 1} has invalid time, skipping`);
+              if (!isValidTime(alarmConfig.time)) {
+                this.log.debug(`Skipping scheduler.warmAwake.alarms[${index}]: invalid time`);
                 return;
               }
 
-              // Validate temperature
-              if (typeof alarmConfig.targetTemperature !== 'number') {
-                this.log.warn(`Warm Awake alarm ${index + 1} has invalid target temperature, skipping`);
+              // Validate temperature; a max mode takes its place
+              const target = isMaxMode(alarmConfig.maxMode) ? alarmConfig.maxMode : alarmConfig.targetTemperature;
+              if (typeof target !== 'number' && !isMaxMode(target)) {
+                this.log.debug(`Skipping scheduler.warmAwake.alarms[${index}]: invalid target temperature`);
                 return;
               }
 
               // Create alarm object
               const alarm: WarmAwakeAlarm = {
                 id: alarmConfig.id || uuidv4(),
-                days: days as DayOfWeek[],
+                days,
                 time: alarmConfig.time,
-                targetTemperature: alarmConfig.targetTemperature,
+                targetTemperature: target,
                 duration: typeof alarmConfig.duration === 'number' ? alarmConfig.duration : 15,
                 enabled: true,
                 name: alarmConfig.name || `Warm Awake ${index + 1}`
@@ -219,21 +234,32 @@ export class WarmAwakeManager {
     const deviceName = this.deviceMap.get(deviceId) || deviceId;
     this.log.info(`Starting Warm Awake sequence for ${deviceName} (${alarm.name})`);
     
+    const services = this.resolveDevice(deviceId);
+    if (!services) {
+      this.log.warn(`Skipping Warm Awake for ${deviceName}: no account owns this device`);
+      return;
+    }
+    
     try {
-      // Get current device status
-      const status = await this.apiService.getDeviceStatus(deviceId);
+      // Get current device state
+      const deviceState = await services.stateStore.refresh(deviceId, RequestPriority.SCHEDULED);
       
-      if (!status) {
-        this.log.error(`Unable to get status for device ${deviceName}`);
-        return;
+      // Ramp only through set points this model accepts; a max mode target
+      // ramps to the end of the normal range, then switches to the max mode
+      const { capabilities } = services;
+      const target = alarm.targetTemperature;
+      const startTemp = clampSetpoint(capabilities, deviceState.currentTemperature);
+      const { temperature: endTemp, maxMode } = resolveTarget(capabilities, target);
+      if (isMaxMode(target) ? !maxMode : !acceptsSetpoint(capabilities, target)) {
+        this.log.warn(
+          `Warm Awake target ${describeTarget(target)} is not available on ${deviceName} ` +
+          `(${capabilities.modelName}, ${capabilities.minTemperature}-${capabilities.maxTemperature}°C), using ${endTemp}°C`,
+        );
       }
       
-      const startTemp = status["control.current_temperature_c"];
-      const endTemp = alarm.targetTemperature;
-      
       // Skip if already at target temperature
-      if (Math.abs(startTemp - endTemp) < 0.5) {
-        this.log.info(`Device ${deviceName} is already at target temperature (${endTemp}°C), skipping Warm Awake`);
+      if (maxMode ? deviceState.maxMode === maxMode : Math.abs(startTemp - endTemp) < 0.5) {
+        this.log.info(`Device ${deviceName} is already at ${describeTarget(maxMode ?? endTemp)}, skipping Warm Awake`);
         return;
       }
       
@@ -247,6 +273,7 @@ export class WarmAwakeManager {
       // Create sequence object
       const sequence: WarmAwakeSequence = {
         id: sequenceId,
+        deviceId,
         startTime: new Date(),
         endTime: new Date(Date.now() + (alarm.duration * 60000)),
         currentStep: 0,
@@ -258,7 +285,7 @@ export class WarmAwakeManager {
       };
       
       // First turn the device on if it's off
-      await this.apiService.turnDeviceOn(deviceId, startTemp);
+      await services.api.turnDeviceOn(deviceId, startTemp, RequestPriority.SCHEDULED);
       
       // Set up interval to gradually change temperature
       const stepDuration = Math.floor(alarm.duration * 60000 / steps);
@@ -266,30 +293,53 @@ export class WarmAwakeManager {
         try {
           sequence.currentStep++;
           
-          // Calculate the current temperature based on the step
-          const currentTemp = startTemp + (tempIncrement * sequence.currentStep);
-          
-          // Update device temperature
-          await this.apiService.setDeviceSettings(deviceId, {
-            "control.set_temperature_c": currentTemp
-          });
-          
-          this.log.info(`Warm Awake step ${sequence.currentStep}/${steps} for ${deviceName}: ${currentTemp.toFixed(1)}°C`);
-          
-          // Check if the sequence is complete
-          if (sequence.currentStep >= steps) {
-            this.stopSequence(sequenceId);
-            this.log.info(`Warm Awake sequence completed for ${deviceName}`);
+          if (maxMode && sequence.currentStep >= steps) {
+            // Finish in the max mode instead of at the end of the range
+            await services.api.setMaxMode(deviceId, maxMode, RequestPriority.SCHEDULED);
+            this.log.info(`Warm Awake step ${sequence.currentStep}/${steps} for ${deviceName}: ${describeTarget(maxMode)}`);
+          } else {
+            // Calculate the current temperature based on the step
+            const currentTemp = startTemp + (tempIncrement * sequence.currentStep);
+            
+            // Update device temperature
+            await services.api.setDeviceSettings(deviceId, {
+              "control.set_temperature_c": currentTemp
+            }, RequestPriority.SCHEDULED);
+            
+            this.log.info(`Warm Awake step ${sequence.currentStep}/${steps} for ${deviceName}: ${currentTemp.toFixed(1)}°C`);
           }
         } catch (error) {
-          this.log.error(`Error in Warm Awake sequence for ${deviceName}: ${error}`);
+          if (error instanceof RateLimitError) {
+            // The next step will catch up with a warmer temperature
+            this.log.warn(`Warm Awake step ${sequence.currentStep}/${steps} for ${deviceName} skipped due to rate limiting`);
+          } else if (error instanceof AuthenticationError || error instanceof DeviceNotFoundError) {
+            this.log.error(`Stopping Warm Awake sequence for ${deviceName}: ${error.message}`);
+            this.stopSequence(sequenceId);
+            return;
+          } else {
+            this.log.error(`Error in Warm Awake sequence for ${deviceName}: ${error}`);
+          }
+        }
+        
+        // Check if the sequence is complete
+        if (sequence.currentStep >= steps) {
+          this.stopSequence(sequenceId);
+          this.log.info(`Warm Awake sequence completed for ${deviceName}`);
         }
       }, stepDuration);
       
+      // Stop if someone turns the device off while the sequence runs
+      sequence.unsubscribe = services.stateStore.subscribe(deviceId, event => {
+        if (event.type === 'state' && event.changed.includes('active') && !event.state.active) {
+          this.log.info(`${deviceName} was turned off, stopping Warm Awake sequence`);
+          this.stopSequence(sequenceId);
+        }
+      });
+      
       // Store the sequence
       this.activeSequences.set(sequenceId, sequence);
       
-      this.log.info(`Warm Awake sequence started for ${deviceName}, will increase from ${startTemp}°C to ${endTemp}°C over ${alarm.duration} minutes`);
+      this.log.info(`Warm Awake sequence started for ${deviceName}, will increase from ${startTemp}°C to ${describeTarget(maxMode ?? endTemp)} over ${alarm.duration} minutes`);
     } catch (error) {
       this.log.error(`Error starting Warm Awake sequence for ${deviceName}: ${error}`);
     }
@@ -303,6 +353,7 @@ export class WarmAwakeManager {
     
     if (sequence && sequence.intervalId) {
       clearInterval(sequence.intervalId);
+      sequence.unsubscribe?.();
       this.activeSequences.delete(sequenceId);
       this.log.debug(`Stopped Warm Awake sequence ${sequenceId}`);
     }
@@ -316,6 +367,7 @@ export class WarmAwakeManager {
       if (sequence.intervalId) {
         clearInterval(sequence.intervalId);
       }
+      sequence.unsubscribe?.();
     });
     
     this.activeSequences.clear();
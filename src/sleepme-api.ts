@@ -1,5 +1,29 @@
-import axios, { AxiosResponse, AxiosError } from 'axios';
 import { Logger } from 'homebridge';
+import {
+    AxiosTransport,
+    DEFAULT_BASE_URL,
+    HttpMethod,
+    HttpResponse,
+    HttpTransport,
+    TransportError,
+} from './http-transport.js';
+import { RateLimitBudget, RateLimiter } from './rate-limiter.js';
+import {
+    MalformedResponseError,
+    NetworkError,
+    RequestDroppedError,
+    ServerError,
+    SleepMeApiError,
+    toApiError,
+} from './api-errors.js';
+import { RetryPolicy, resolveRetryPolicy, withRetry } from './retry-policy.js';
+import { EnqueueOptions, RequestPriority, RequestQueue } from './request-queue.js';
+import { DeviceStatus, deviceSetpoint, parseDeviceStatus } from './device-status.js';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitOpenError, CircuitState } from './circuit-breaker.js';
+import { StaticTokenSource, TokenSource } from './token-source.js';
+import { Temperature, TemperatureUnit } from './temperature.js';
+import { MAX_MODES, MAX_MODE_SETPOINTS, MaxMode, describeTarget, maxModeOf } from './max-mode.js';
+import { DeviceCapabilities, allowedRange, detectCapabilities } from './device-capabilities.js';
 
 export interface Device {
     id: string;
@@ -7,41 +31,111 @@ export interface Device {
     attachments: string;
 }
 
-export interface DeviceStatus {
-    "control.target_temperature_c": number;
-    "control.current_temperature_c": number;
-    "control.thermal_control_status"?: string;
-    "control.power"?: string;
-    "status.humidity"?: number;
-    "status.water_warning"?: boolean;
-    "status.water_level_low"?: boolean;
-    "status.water_level"?: string;
-    "about.firmware_version"?: string;
+/**
+ * Optional overrides for how SleepMeApi talks to the cloud
+ */
+export interface SleepMeApiOptions {
+    baseUrl?: string; // Defaults to the public SleepMe developer API
+    transport?: HttpTransport; // Defaults to an axios-backed transport
+    retryPolicy?: Partial<RetryPolicy>; // Overrides for retrying transient failures
+    statusCacheTtl?: number; // How long a fetched device status is reused (milliseconds)
+    circuitBreaker?: Partial<CircuitBreakerOptions>; // When to stop calling an unavailable API
+    temperatureUnit?: (deviceId: string) => TemperatureUnit; // Unit set points are sent in; defaults to Celsius
+    capabilities?: (deviceId: string) => DeviceCapabilities; // Set point range per model; defaults to any SleepMe range
 }
 
-// Static rate limiting variables shared across instances
-interface RequestCounts {
-    [minute: string]: number;
+interface CachedStatus {
+    status: DeviceStatus;
+    fetchedAt: number;
+}
+
+interface InFlightStatus {
+    promise: Promise<DeviceStatus>;
+    priority: RequestPriority;
 }
-const requestsPerMinute: RequestCounts = {};
-let rateLimitResetTime = 0;
-let minRequestDelay = 250; // Minimum delay between requests (milliseconds)
 
 export class SleepMeApi {
-    public readonly baseUrl = 'https://api.developer.sleep.me/v1';
+    public readonly baseUrl: string;
     private readonly MAX_REQUESTS_PER_MINUTE = 8; // Conservative (actual limit is 10)
-    private static requestPromise = Promise.resolve<unknown>(null); // For sequential requests
+    private readonly REQUEST_TIMEOUT = 10000; // milliseconds
+    private readonly POLL_STALE_AFTER = 60000; // Drop queued polls older than one poll interval
+    private readonly DEFAULT_STATUS_CACHE_TTL = 30000; // milliseconds
     private readonly verbose: boolean;
+    private readonly transport: HttpTransport;
+    private readonly rateLimiter: RateLimiter;
+    private readonly retryPolicy: RetryPolicy;
+    private readonly requestQueue: RequestQueue; // For sequential, prioritized requests
+    private readonly circuitBreaker: CircuitBreaker;
+    private readonly statusCacheTtl: number;
+    private readonly statusCache = new Map<string, CachedStatus>(); // deviceId -> last status
+    private readonly inFlightStatus = new Map<string, InFlightStatus>(); // deviceId -> pending fetch
+    private readonly cacheGeneration = new Map<string, number>(); // deviceId -> invalidation count
+    private readonly reportedDrift = new Set<string>(); // Schema drift already warned about
+    private readonly statusListeners = new Set<(deviceId: string, status: DeviceStatus) => void>();
+    private readonly tokenSource: TokenSource;
+    private readonly temperatureUnit: (deviceId: string) => TemperatureUnit;
+    private readonly capabilities: (deviceId: string) => DeviceCapabilities;
 
     constructor(
-        private readonly apiToken: string, 
+        apiToken: string | TokenSource,
         private readonly log: Logger,
-        verbose = false
+        verbose = false,
+        options: SleepMeApiOptions = {}
     ) {
-        if (!apiToken || apiToken.trim() === '') {
+        this.tokenSource = typeof apiToken === 'string' ? new StaticTokenSource(apiToken) : apiToken;
+        if (this.tokenSource.getToken().trim() === '') {
             this.log.error('Invalid API token provided');
         }
         this.verbose = verbose;
+        this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+        this.transport = options.transport || new AxiosTransport();
+        // The limiter stays with the account even if the token is rotated later
+        this.rateLimiter = RateLimiter.forToken(this.tokenSource.getToken(), log, {
+            requestsPerMinute: this.MAX_REQUESTS_PER_MINUTE
+        });
+        this.retryPolicy = resolveRetryPolicy(options.retryPolicy);
+        this.requestQueue = new RequestQueue(log, requestFn => this.executeWithRateLimit(requestFn));
+        this.circuitBreaker = new CircuitBreaker(log, error => {
+            // Only outages count; answers like 401 or 404 prove the API is reachable
+            const apiError = toApiError(error);
+            return apiError instanceof NetworkError || apiError instanceof ServerError;
+        }, options.circuitBreaker);
+        this.statusCacheTtl = typeof options.statusCacheTtl === 'number' && options.statusCacheTtl >= 0
+            ? options.statusCacheTtl
+            : this.DEFAULT_STATUS_CACHE_TTL;
+        this.temperatureUnit = options.temperatureUnit || (() => 'C');
+        this.capabilities = options.capabilities || (() => detectCapabilities());
+    }
+
+    /**
+     * Get the current rate limit budget for this API token
+     */
+    getRateLimitBudget(): RateLimitBudget {
+        return this.rateLimiter.getBudget();
+    }
+
+    /**
+     * Whether the API is currently considered reachable
+     */
+    isAvailable(): boolean {
+        return this.circuitBreaker.isClosed();
+    }
+
+    /**
+     * Be notified when the API becomes unavailable or recovers
+     * @returns A function that removes the listener
+     */
+    onAvailabilityChange(listener: (available: boolean) => void): () => void {
+        return this.circuitBreaker.onStateChange((state: CircuitState) => listener(state === 'closed'));
+    }
+
+    /**
+     * Be notified of every freshly fetched device status
+     * @returns A function that removes the listener
+     */
+    onStatus(listener: (deviceId: string, status: DeviceStatus) => void): () => void {
+        this.statusListeners.add(listener);
+        return () => this.statusListeners.delete(listener);
     }
 
     /**
@@ -51,18 +145,9 @@ export class SleepMeApi {
         try {
             this.log.debug('[API] Getting SleepMe devices...');
             
-            const devices = await this.queueRequest(async () => {
+            const devices = await this.requestWithRetry('getDevices', async () => {
                 this.log.debug('[API] Sending GET request to /devices');
-                const response: AxiosResponse = await axios({
-                    method: 'GET',
-                    url: `${this.baseUrl}/devices`,
-                    headers: {
-                        'Authorization': `Bearer ${this.apiToken}`,
-                        'Content-Type': 'application/json',
-                        'Accept': 'application/json'
-                    },
-                    timeout: 10000
-                });
+                const response = await this.sendRequest('GET', '/devices');
                 
                 this.logApiResponse('GET', '/devices', response);
                 
@@ -77,6 +162,8 @@ export class SleepMeApi {
                 } else if (response.data && typeof response.data === 'object') {
                     devices = [response.data];
                     this.log.debug('[API] Found single device in object response');
+                } else {
+                    throw new MalformedResponseError('Unexpected response format for /devices');
                 }
                 
                 // Validate devices have required fields
@@ -90,287 +177,274 @@ export class SleepMeApi {
                 
                 this.log.debug(`[API] Found ${devices.length} valid SleepMe devices`);
                 return devices;
-            });
+            }, { priority: RequestPriority.SCHEDULED, key: 'devices', merge: true });
             
             return devices || [];
         } catch (error) {
-            this.handleApiError('getDevices', error);
-            return [];
+            throw this.handleApiError('getDevices', error);
         }
     }
 
     /**
      * Get status for a specific device
+     * Recent results are served from a short-lived cache and concurrent
+     * callers for the same device share a single request
+     * @param forceRefresh Bypass the cache and fetch fresh data
      */
-    async getDeviceStatus(deviceId: string): Promise<DeviceStatus | null> {
+    async getDeviceStatus(
+        deviceId: string,
+        priority = RequestPriority.POLL,
+        forceRefresh = false
+    ): Promise<DeviceStatus> {
         if (!deviceId) {
-            this.log.error('[API] getDeviceStatus called with undefined deviceId');
-            return null;
+            throw new SleepMeApiError('getDeviceStatus called with undefined deviceId');
         }
         
+        if (!forceRefresh) {
+            const cached = this.statusCache.get(deviceId);
+            if (cached && Date.now() - cached.fetchedAt < this.statusCacheTtl) {
+                this.log.debug(`[API] Using cached status for device ${deviceId} (${Date.now() - cached.fetchedAt}ms old)`);
+                return cached.status;
+            }
+            
+            // Share a request already in flight, unless this caller is more urgent
+            const inFlight = this.inFlightStatus.get(deviceId);
+            if (inFlight && inFlight.priority <= priority) {
+                this.log.debug(`[API] Joining in-flight status request for device ${deviceId}`);
+                return inFlight.promise;
+            }
+        }
+        
+        const generation = this.cacheGeneration.get(deviceId) || 0;
+        const promise = this.fetchDeviceStatus(deviceId, priority)
+            .then(status => {
+                // Don't cache data fetched before the device was last updated
+                if ((this.cacheGeneration.get(deviceId) || 0) === generation) {
+                    this.statusCache.set(deviceId, { status, fetchedAt: Date.now() });
+                    this.statusListeners.forEach(listener => listener(deviceId, status));
+                }
+                return status;
+            })
+            .finally(() => {
+                if (this.inFlightStatus.get(deviceId)?.promise === promise) {
+                    this.inFlightStatus.delete(deviceId);
+                }
+            });
+        
+        this.inFlightStatus.set(deviceId, { promise, priority });
+        return promise;
+    }
+
+    /**
+     * Drop any cached status for a device
+     */
+    invalidateStatus(deviceId: string): void {
+        this.statusCache.delete(deviceId);
+        this.inFlightStatus.delete(deviceId);
+        this.cacheGeneration.set(deviceId, (this.cacheGeneration.get(deviceId) || 0) + 1);
+    }
+
+    /**
+     * Fetch and parse the status of a device from the API
+     */
+    private async fetchDeviceStatus(deviceId: string, priority: RequestPriority): Promise<DeviceStatus> {
         try {
             this.log.debug(`[API] Getting status for device ${deviceId}...`);
             
-            return await this.queueRequest(async () => {
+            return await this.requestWithRetry(`getDeviceStatus(${deviceId})`, async () => {
                 this.log.debug(`[API] Sending GET request to /devices/${deviceId}`);
-                const response: AxiosResponse = await axios({
-                    method: 'GET',
-                    url: `${this.baseUrl}/devices/${deviceId}`,
-                    headers: {
-                        'Authorization': `Bearer ${this.apiToken}`,
-                        'Content-Type': 'application/json',
-                        'Accept': 'application/json'
-                    },
-                    timeout: 10000
-                });
+                const response = await this.sendRequest('GET', `/devices/${deviceId}`);
                 
                 this.logApiResponse('GET', `/devices/${deviceId}`, response);
                 
-                if (!response.data) {
-                    this.log.error(`[API] Empty response data for device ${deviceId}`);
-                    return null;
+                if (!response.data || typeof response.data !== 'object') {
+                    throw new MalformedResponseError(`Empty response data for device ${deviceId}`);
                 }
                 
                 if (this.verbose) {
                     this.log.debug(`[API] Raw device data: ${JSON.stringify(response.data)}`);
                 }
                 
-                // Extract the relevant fields we need
-                const deviceStatus: DeviceStatus = {
-                    "control.target_temperature_c": this.ensureValidTemperature(
-                        this.extractNestedValue(response.data, 'control.set_temperature_c') || 
-                        this.extractNestedValue(response.data, 'set_temperature_c') ||
-                        this.convertFtoC(this.extractNestedValue(response.data, 'set_temperature_f')) ||
-                        21
-                    ),
-                    "control.current_temperature_c": this.ensureValidTemperature(
-                        this.extractNestedValue(response.data, 'status.water_temperature_c') || 
-                        this.extractNestedValue(response.data, 'water_temperature_c') ||
-                        this.convertFtoC(this.extractNestedValue(response.data, 'water_temperature_f')) ||
-                        21
-                    ),
-                    "control.thermal_control_status": this.extractNestedValue(response.data, 'thermal_control_status') ||
-                                                     this.extractNestedValue(response.data, 'control.thermal_control_status'),
-                    "control.power": this.extractNestedValue(response.data, 'power') ||
-                                     this.extractNestedValue(response.data, 'control.power')
-                };
-                
-                // Extract humidity if available
-                const humidity = this.extractNestedValue(response.data, 'status.humidity') || 
-                                this.extractNestedValue(response.data, 'humidity');
-                                
-                if (humidity !== undefined && typeof humidity === 'number') {
-                    deviceStatus["status.humidity"] = Math.min(100, Math.max(0, Math.round(humidity)));
-                }
-                
-                // Extract water level information if available
-                const waterWarning = this.extractNestedValue(response.data, 'status.water_warning');
-                if (waterWarning !== undefined) {
-                    deviceStatus["status.water_warning"] = !!waterWarning;
-                }
-                
-                const waterLevelLow = this.extractNestedValue(response.data, 'status.water_level_low');
-                if (waterLevelLow !== undefined) {
-                    deviceStatus["status.water_level_low"] = !!waterLevelLow;
-                }
-                
-                const waterLevel = this.extractNestedValue(response.data, 'status.water_level');
-                if (waterLevel !== undefined) {
-                    deviceStatus["status.water_level"] = waterLevel;
-                }
-                
-                // Extract firmware version if available
-                const firmwareVersion = this.extractNestedValue(response.data, 'about.firmware_version') ||
-                                       this.extractNestedValue(response.data, 'firmware_version');
-                if (firmwareVersion) {
-                    deviceStatus["about.firmware_version"] = firmwareVersion;
-                }
+                // Validate against the device model; unexpected differences are reported, not papered over
+                const { status: deviceStatus, drift } = parseDeviceStatus(response.data);
+                this.reportSchemaDrift(deviceId, drift);
                 
                 this.log.debug(`[API] Parsed device status: ${JSON.stringify(deviceStatus)}`);
                 return deviceStatus;
+            }, {
+                priority,
+                key: `status:${deviceId}`,
+                merge: true,
+                staleAfter: priority === RequestPriority.POLL ? this.POLL_STALE_AFTER : undefined
             });
         } catch (error) {
-            this.handleApiError(`getDeviceStatus(${deviceId})`, error);
-            return null;
+            throw this.handleApiError(`getDeviceStatus(${deviceId})`, error, deviceId);
         }
     }
 
     /**
      * Turn device on by setting thermal_control_status to "active"
      */
-    async turnDeviceOn(deviceId: string, temperature?: number): Promise<boolean> {
-        try {
-            // First get current temperature if none provided
-            if (temperature === undefined) {
-                const status = await this.getDeviceStatus(deviceId);
-                if (status && status["control.target_temperature_c"]) {
-                    temperature = status["control.target_temperature_c"];
-                } else {
-                    this.log.debug(`[API] No current temperature available, using default of 21°C`);
-                    temperature = 21;
-                }
-            }
-            
-            // Validate temperature
-            const validTemp = this.ensureValidTemperature(temperature);
-            
-            this.log.info(`[API] Turning device ${deviceId} ON with temperature ${validTemp}°C`);
-            
-            // Create payload based on Postman example format
-            const payload = {
-                "set_temperature_c": validTemp,
-                "set_temperature_f": this.convertCtoF(validTemp), // Include Fahrenheit for compatibility
-                "thermal_control_status": "active"
-            };
-            
-            // Set the device state
-            return await this.updateDeviceSettings(deviceId, payload);
-        } catch (error) {
-            this.handleApiError(`turnDeviceOn(${deviceId})`, error);
-            return false;
+    async turnDeviceOn(
+        deviceId: string,
+        temperature?: number,
+        priority = RequestPriority.INTERACTIVE
+    ): Promise<void> {
+        // First get current temperature if none provided
+        if (temperature === undefined) {
+            const status = await this.getDeviceStatus(deviceId, priority);
+            temperature = deviceSetpoint(status.control).celsius;
         }
+        
+        const setpoint = this.temperaturePayload(deviceId, temperature);
+        
+        this.log.info(`[API] Turning device ${deviceId} ON with temperature ${this.describeSetpoint(deviceId, setpoint)}`);
+        
+        // Create payload based on Postman example format
+        const payload = {
+            ...setpoint,
+            "thermal_control_status": "active"
+        };
+        
+        // Set the device state
+        await this.updateDeviceSettings(deviceId, payload, priority);
     }
 
     /**
      * Turn device off by setting thermal_control_status to "standby"
+     * @param temperature Set point to store for the next time it is turned on (Celsius)
      */
-    async turnDeviceOff(deviceId: string): Promise<boolean> {
-        try {
-            this.log.info(`[API] Turning device ${deviceId} OFF`);
-            
-            // Create payload according to Postman example format
-            const payload = {
-                "thermal_control_status": "standby"
-            };
-            
-            // Set the device state
-            return await this.updateDeviceSettings(deviceId, payload);
-        } catch (error) {
-            this.handleApiError(`turnDeviceOff(${deviceId})`, error);
-            return false;
-        }
+    async turnDeviceOff(
+        deviceId: string,
+        priority = RequestPriority.INTERACTIVE,
+        temperature?: number
+    ): Promise<void> {
+        const setpoint = temperature === undefined ? {} : this.temperaturePayload(deviceId, temperature);
+        
+        this.log.info(temperature === undefined
+            ? `[API] Turning device ${deviceId} OFF`
+            : `[API] Turning device ${deviceId} OFF with temperature ${this.describeSetpoint(deviceId, setpoint)}`);
+        
+        // Create payload according to Postman example format
+        const payload = {
+            ...setpoint,
+            "thermal_control_status": "standby"
+        };
+        
+        // Set the device state
+        await this.updateDeviceSettings(deviceId, payload, priority);
     }
 
     /**
      * Set temperature only (device must already be on)
      */
-    async setTemperature(deviceId: string, temperature: number): Promise<boolean> {
-        try {
-            // Validate temperature
-            const validTemp = this.ensureValidTemperature(temperature);
-            
-            this.log.info(`[API] Setting device ${deviceId} temperature to ${validTemp}°C`);
-            
-            // Create payload including both C and F temperature values for compatibility
-            const payload = {
-                "set_temperature_c": validTemp,
-                "set_temperature_f": this.convertCtoF(validTemp)
-            };
-            
-            // Update device settings
-            return await this.updateDeviceSettings(deviceId, payload);
-        } catch (error) {
-            this.handleApiError(`setTemperature(${deviceId})`, error);
-            return false;
-        }
+    async setTemperature(
+        deviceId: string,
+        temperature: number,
+        priority = RequestPriority.INTERACTIVE
+    ): Promise<void> {
+        const payload = this.temperaturePayload(deviceId, temperature);
+        
+        this.log.info(`[API] Setting device ${deviceId} temperature to ${this.describeSetpoint(deviceId, payload)}`);
+        
+        // Update device settings
+        await this.updateDeviceSettings(deviceId, payload, priority);
+    }
+
+    /**
+     * Run the device at full power by sending the max mode's special set point,
+     * which is outside the normal range and therefore not clamped
+     */
+    async setMaxMode(
+        deviceId: string,
+        mode: MaxMode,
+        priority = RequestPriority.INTERACTIVE
+    ): Promise<void> {
+        this.log.info(`[API] Turning device ${deviceId} ON in ${describeTarget(mode)}`);
+        
+        // The marker is a Celsius value, even for devices driven in °F
+        const payload = {
+            "set_temperature_c": MAX_MODE_SETPOINTS[mode],
+            "thermal_control_status": "active"
+        };
+        
+        await this.updateDeviceSettings(deviceId, payload, priority);
     }
 
     /**
      * Set specific device settings
      * @param deviceId The device ID
      * @param settings The settings to update as key-value pairs
+     * @param priority Queue priority for the request
      */
-    async setDeviceSettings(deviceId: string, settings: Record<string, any>): Promise<boolean> {
+    async setDeviceSettings(
+        deviceId: string,
+        settings: Record<string, any>,
+        priority = RequestPriority.INTERACTIVE
+    ): Promise<void> {
         if (!deviceId) {
-            this.log.error('[API] setDeviceSettings called with undefined deviceId');
-            return false;
+            throw new SleepMeApiError('setDeviceSettings called with undefined deviceId');
         }
         
         if (!settings || Object.keys(settings).length === 0) {
-            this.log.error('[API] setDeviceSettings called with empty settings');
-            return false;
+            throw new SleepMeApiError('setDeviceSettings called with empty settings');
         }
         
-        try {
-            this.log.info(`[API] Setting device ${deviceId} settings: ${JSON.stringify(settings)}`);
-            
-            // Prepare a flat payload - convert any dot notation keys to simple property names
-            const flatPayload: Record<string, any> = {};
-            
-            for (const [key, value] of Object.entries(settings)) {
-                if (key.includes('.')) {
-                    // For keys like "control.set_temperature_c", extract just "set_temperature_c"
-                    const parts = key.split('.');
-                    if (parts.length === 2) {
-                        flatPayload[parts[1]] = value;
-                        
-                        // Special case for temperature - provide both C and F for compatibility
-                        if (parts[1] === 'set_temperature_c' && typeof value === 'number') {
-                            flatPayload['set_temperature_f'] = this.convertCtoF(value);
-                        } else if (parts[1] === 'set_temperature_f' && typeof value === 'number') {
-                            flatPayload['set_temperature_c'] = this.convertFtoC(value);
-                        }
-                    }
-                } else {
-                    // Keep keys that are already flat
-                    flatPayload[key] = value;
-                    
-                    // Special case for temperature - provide both C and F for compatibility
-                    if (key === 'set_temperature_c' && typeof value === 'number') {
-                        flatPayload['set_temperature_f'] = this.convertCtoF(value);
-                    } else if (key === 'set_temperature_f' && typeof value === 'number') {
-                        flatPayload['set_temperature_c'] = this.convertFtoC(value);
-                    }
-                }
+        this.log.info(`[API] Setting device ${deviceId} settings: ${JSON.stringify(settings)}`);
+        
+        // Prepare a flat payload - convert any dot notation keys to simple property names
+        const flatPayload: Record<string, any> = {};
+        
+        for (const [key, value] of Object.entries(settings)) {
+            // For keys like "control.set_temperature_c", extract just "set_temperature_c"
+            const parts = key.split('.');
+            if (parts.length > 2) {
+                continue;
             }
+            const field = parts[parts.length - 1];
             
-            // Log the transformed payload for debugging
-            this.log.debug(`[API] Transformed payload: ${JSON.stringify(flatPayload)}`);
-            
-            // Send the flat payload to the API
-            return await this.updateDeviceSettings(deviceId, flatPayload);
-        } catch (error) {
-            this.handleApiError(`setDeviceSettings(${deviceId})`, error);
-            return false;
+            // Temperatures are sent in the device's unit only, whichever unit they were given in
+            if ((field === 'set_temperature_c' || field === 'set_temperature_f') && typeof value === 'number') {
+                const celsius = Temperature.from(value, field === 'set_temperature_f' ? 'F' : 'C').celsius;
+                Object.assign(flatPayload, this.temperaturePayload(deviceId, celsius));
+            } else {
+                flatPayload[field] = value;
+            }
         }
+        
+        // Log the transformed payload for debugging
+        this.log.debug(`[API] Transformed payload: ${JSON.stringify(flatPayload)}`);
+        
+        // Send the flat payload to the API
+        await this.updateDeviceSettings(deviceId, flatPayload, priority);
     }
 
     /**
      * Update device settings using a PATCH request
      * This is the core method for controlling a device
      */
-    async updateDeviceSettings(deviceId: string, settings: Record<string, any>): Promise<boolean> {
+    async updateDeviceSettings(
+        deviceId: string,
+        settings: Record<string, any>,
+        priority = RequestPriority.INTERACTIVE
+    ): Promise<void> {
         if (!deviceId) {
-            this.log.error('[API] updateDeviceSettings called with undefined deviceId');
-            return false;
+            throw new SleepMeApiError('updateDeviceSettings called with undefined deviceId');
         }
         
         if (!settings || Object.keys(settings).length === 0) {
-            this.log.error('[API] updateDeviceSettings called with empty settings');
-            return false;
+            throw new SleepMeApiError('updateDeviceSettings called with empty settings');
         }
         
         try {
             this.log.info(`[API] Updating device ${deviceId} settings: ${JSON.stringify(settings)}`);
             
-            const success = await this.queueRequest(async () => {
+            // Settings are absolute values, so repeating the PATCH is safe
+            await this.requestWithRetry(`updateDeviceSettings(${deviceId})`, async () => {
                 this.log.debug(`[API] Sending PATCH request to /devices/${deviceId}`);
-                
-                // Log the exact request we're sending, including headers
-                this.log.debug(`[API] Request headers: Authorization: Bearer ${this.apiToken.substring(0, 5)}..., Content-Type: application/json`);
                 this.log.debug(`[API] Request payload: ${JSON.stringify(settings)}`);
                 
-                const response = await axios({
-                    method: 'PATCH',
-                    url: `${this.baseUrl}/devices/${deviceId}`,
-                    headers: {
-                        'Authorization': `Bearer ${this.apiToken}`,
-                        'Content-Type': 'application/json',
-                        'Accept': 'application/json'
-                    },
-                    data: settings,
-                    timeout: 10000
-                });
+                const response = await this.sendRequest('PATCH', `/devices/${deviceId}`, settings);
                 
                 // Log the full response details for debugging
                 this.logApiResponse('PATCH', `/devices/${deviceId}`, response);
@@ -378,75 +452,142 @@ export class SleepMeApi {
                 if (response.data) {
                     this.log.debug(`[API] Response data: ${JSON.stringify(response.data)}`);
                 }
-                
-                return response.status >= 200 && response.status < 300;
-            });
+            }, { priority, key: `update:${deviceId}` });
+        } catch (error) {
+            throw this.handleApiError(`updateDeviceSettings(${deviceId})`, error, deviceId);
+        }
+        
+        this.log.info(`[API] Successfully updated device ${deviceId} settings`);
+        this.invalidateStatus(deviceId);
+        
+        // Verify in the background so callers are not held up by the extra read
+        this.verifyDeviceSettings(deviceId, settings);
+    }
+
+    /**
+     * Re-read a device after an update and warn if the change did not stick.
+     * Verification failures are logged only; the update itself already succeeded.
+     */
+    private async verifyDeviceSettings(deviceId: string, settings: Record<string, any>): Promise<void> {
+        try {
+            // Add a small delay to allow the device to update
+            await new Promise(resolve => setTimeout(resolve, 1500));
+            // Verification is background work and may merge with a queued poll
+            const updatedStatus = await this.getDeviceStatus(deviceId, RequestPriority.POLL, true);
+            this.log.debug(`[API] Device status after update: ${JSON.stringify(updatedStatus)}`);
             
-            // If successful, log and optionally verify the changes
-            if (success) {
-                this.log.info(`[API] Successfully updated device ${deviceId} settings`);
-                
-                // Get updated device status for verification
-                // Add a small delay to allow the device to update
-                await new Promise(resolve => setTimeout(resolve, 1500));
-                const updatedStatus = await this.getDeviceStatus(deviceId);
-                this.log.debug(`[API] Device status after update: ${JSON.stringify(updatedStatus)}`);
-                
-                // Check if the update was actually applied by comparing values
-                if (updatedStatus) {
-                    // Check if thermal control status was updated
-                    if (settings.thermal_control_status) {
-                        const newStatus = updatedStatus["control.thermal_control_status"];
-                        if (newStatus !== settings.thermal_control_status) {
-                            this.log.warn(`[API] Thermal status may not have updated correctly. Expected: ${settings.thermal_control_status}, Got: ${newStatus}`);
-                        } else {
-                            this.log.debug(`[API] Thermal status updated correctly to: ${newStatus}`);
-                        }
-                    }
-                    
-                    // Check if temperature was updated
-                    if (settings.set_temperature_c) {
-                        const newTemp = updatedStatus["control.target_temperature_c"];
-                        if (newTemp !== settings.set_temperature_c) {
-                            this.log.warn(`[API] Temperature may not have updated correctly. Expected: ${settings.set_temperature_c}°C, Got: ${newTemp}°C`);
-                        } else {
-                            this.log.debug(`[API] Temperature updated correctly to: ${newTemp}°C`);
-                        }
-                    }
+            // Check if thermal control status was updated
+            if (settings.thermal_control_status) {
+                const newStatus = updatedStatus.control.thermal_control_status;
+                if (newStatus !== settings.thermal_control_status) {
+                    this.log.warn(`[API] Thermal status may not have updated correctly. Expected: ${settings.thermal_control_status}, Got: ${newStatus}`);
+                } else {
+                    this.log.debug(`[API] Thermal status updated correctly to: ${newStatus}`);
                 }
-            } else {
-                this.log.error(`[API] Failed to update settings for device ${deviceId}`);
             }
             
-            return success;
+            // A max mode marker is only meaningful in the Celsius field
+            const sentMode = MAX_MODES.find(mode => settings.set_temperature_c === MAX_MODE_SETPOINTS[mode]);
+            if (sentMode) {
+                if (maxModeOf(updatedStatus.control) !== sentMode) {
+                    this.log.warn(`[API] ${describeTarget(sentMode)} may not have been applied. Got set point: ${updatedStatus.control.set_temperature_c}°C`);
+                }
+                return;
+            }
+            
+            // Check if temperature was updated, comparing in the unit it was sent in
+            const unit: TemperatureUnit = typeof settings.set_temperature_f === 'number' ? 'F' : 'C';
+            const sent = unit === 'F' ? settings.set_temperature_f : settings.set_temperature_c;
+            if (typeof sent === 'number') {
+                const expected = Temperature.from(sent, unit);
+                const newTemp = deviceSetpoint(updatedStatus.control);
+                if (!newTemp.equals(expected, unit)) {
+                    this.log.warn(`[API] Temperature may not have updated correctly. Expected: ${expected.toString(unit)}, Got: ${newTemp.toString(unit)}`);
+                } else {
+                    this.log.debug(`[API] Temperature updated correctly to: ${newTemp.toString(unit)}`);
+                }
+            }
         } catch (error) {
-            this.handleApiError(`updateDeviceSettings(${deviceId})`, error);
-            return false;
+            this.log.debug(`[API] Could not verify update for device ${deviceId}: ${error instanceof Error ? error.message : error}`);
         }
     }
 
     /**
-     * Convert temperature from Fahrenheit to Celsius
+     * Set point fields for a temperature in Celsius, clamped to the range its model accepts
+     * and sent only in the unit the device is driven in: a whole number for °F,
+     * so the device does not round it again and report back a drifted value
      */
-    private convertFtoC(tempF: number | undefined): number | undefined {
-        if (tempF === undefined || typeof tempF !== 'number') {
-            return undefined;
+    private temperaturePayload(deviceId: string, celsius: number): Record<string, number> {
+        if (typeof celsius !== 'number' || isNaN(celsius)) {
+            this.log.warn(`[API] Invalid temperature value: ${celsius}, using default of 21°C`);
+            celsius = 21;
+        }
+        
+        const unit = this.temperatureUnit(deviceId);
+        const requested = Temperature.fromCelsius(celsius);
+        const { min, max } = allowedRange(this.capabilities(deviceId));
+        const temperature = requested.clamp(min, max).round(unit);
+        if (!temperature.equals(requested, unit)) {
+            this.log.warn(`[API] Temperature value ${requested.toString(unit)} outside the device range, using ${temperature.toString(unit)}`);
         }
         
-        return (tempF - 32) * 5/9;
+        return unit === 'F'
+            ? { "set_temperature_f": Math.round(temperature.fahrenheit) }
+            : { "set_temperature_c": temperature.celsius };
     }
 
     /**
-     * Convert temperature from Celsius to Fahrenheit
+     * Readable form of a set point payload for logs
      */
-    private convertCtoF(tempC: number): number {
-        return (tempC * 9/5) + 32;
+    private describeSetpoint(deviceId: string, payload: Record<string, number>): string {
+        const unit = this.temperatureUnit(deviceId);
+        const value = unit === 'F' ? payload.set_temperature_f : payload.set_temperature_c;
+        return `${value}°${unit}`;
+    }
+
+    /**
+     * Send a request to the API through the configured transport
+     * A 401 is retried once if the token source has a new token.
+     */
+    private async sendRequest(method: HttpMethod, path: string, data?: unknown, retryOnAuthFailure = true): Promise<HttpResponse> {
+        try {
+            const response = await this.transport.request({
+                method,
+                url: `${this.baseUrl}${path}`,
+                headers: {
+                    'Authorization': `Bearer ${this.tokenSource.getToken()}`,
+                    'Content-Type': 'application/json',
+                    'Accept': 'application/json'
+                },
+                data,
+                timeout: this.REQUEST_TIMEOUT
+            });
+            
+            this.rateLimiter.recordResponse(response.headers);
+            return response;
+        } catch (error) {
+            // Feed rate limit headers back into the limiter, even on errors
+            if (error instanceof TransportError && error.response) {
+                if (error.response.status === 429) {
+                    this.rateLimiter.recordRateLimited(error.response.headers);
+                } else {
+                    this.rateLimiter.recordResponse(error.response.headers);
+                }
+
+                if (error.response.status === 401 && retryOnAuthFailure && await this.tokenSource.refresh()) {
+                    this.log.info(`[API] Token rejected, retrying ${method} ${path} with the token from ${this.tokenSource.description}`);
+                    await this.rateLimiter.acquire();
+                    return this.sendRequest(method, path, data, false);
+                }
+            }
+            throw error;
+        }
     }
 
     /**
      * Log API response for debugging
      */
-    private logApiResponse(method: string, url: string, response: AxiosResponse): void {
+    private logApiResponse(method: string, url: string, response: HttpResponse): void {
         const logPrefix = '[API]';
         
         // Log basic info for all responses
@@ -485,265 +626,90 @@ export class SleepMeApi {
     }
 
     /**
-     * Queue an API request to ensure proper rate limiting
+     * Queue an API request, retrying transient failures per the retry policy.
+     * Each attempt is queued separately so backoff never blocks other requests.
      */
-    private async queueRequest<T>(requestFn: () => Promise<T>): Promise<T> {
-        // Create a properly typed Promise that will contain our result
-        let resolvePromise!: (value: T) => void;
-        let rejectPromise!: (reason: any) => void;
-        
-        const resultPromise = new Promise<T>((resolve, reject) => {
-            resolvePromise = resolve;
-            rejectPromise = reject;
-        });
-        
-        // Chain this request to the end of our request queue
-        SleepMeApi.requestPromise = SleepMeApi.requestPromise.then(async () => {
-            try {
-                const result = await this.executeWithRateLimit(requestFn);
-                resolvePromise(result);
-            } catch (error) {
-                rejectPromise(error);
-            }
-        }).catch(async () => {
-            // If previous request failed, still try this one
-            try {
-                const result = await this.executeWithRateLimit(requestFn);
-                resolvePromise(result);
-            } catch (error) {
-                rejectPromise(error);
-            }
-        });
-        
-        return resultPromise;
+    private requestWithRetry<T>(label: string, requestFn: () => Promise<T>, options: EnqueueOptions): Promise<T> {
+        return withRetry(() => this.requestQueue.enqueue(requestFn, options), this.retryPolicy, this.log, label);
     }
 
     /**
-     * Execute a request function with rate limiting
+     * Execute a request function with rate limiting, unless the circuit is open
      */
-    private async executeWithRateLimit<T>(requestFn: () => Promise<T>): Promise<T> {
-        await this.respectRateLimit();
-        
-        try {
-            const result = await requestFn();
-            this.trackRequest();
-            return result;
-        } catch (error) {
-            if (axios.isAxiosError(error) && error.response?.status === 429) {
-                this.handleRateLimitExceeded();
-            }
-            throw error;
-        }
+    private executeWithRateLimit<T>(requestFn: () => Promise<T>): Promise<T> {
+        return this.circuitBreaker.execute(async () => {
+            await this.rateLimiter.acquire();
+            this.log.debug(`[API] Rate limit budget: ${this.rateLimiter.describeBudget()}`);
+            
+            return requestFn();
+        });
     }
     
     /**
-     * Helper method to extract values from nested objects or flattened objects with dot notation
+     * Warn about differences between a device payload and the model, once per difference
      */
-    private extractNestedValue(data: any, path: string): any {
-        // First check if the property exists directly (flattened format)
-        if (data && data[path] !== undefined) {
-            return data[path];
-        }
-        
-        // Then try to traverse the nested path
-        const parts = path.split('.');
-        let current = data;
-        
-        for (const part of parts) {
-            if (current && typeof current === 'object' && part in current) {
-                current = current[part];
-            } else {
-                // For special cases like status.humidity check specific object structures
-                if (parts[0] === 'status' && parts.length === 2 && data && data.status && data.status[parts[1]] !== undefined) {
-                    return data.status[parts[1]];
-                }
-                if (parts[0] === 'control' && parts.length === 2 && data && data.control && data.control[parts[1]] !== undefined) {
-                    return data.control[parts[1]];
-                }
-                if (parts[0] === 'about' && parts.length === 2 && data && data.about && data.about[parts[1]] !== undefined) {
-                    return data.about[parts[1]];
-                }
-                return undefined;
+    private reportSchemaDrift(deviceId: string, drift: string[]): void {
+        for (const message of drift) {
+            const key = `${deviceId}:${message}`;
+            if (!this.reportedDrift.has(key)) {
+                this.reportedDrift.add(key);
+                this.log.warn(`[API] Device ${deviceId} status differs from the expected format: ${message}`);
             }
         }
-        
-        return current;
-    }
-
-    /**
-     * Ensure temperature values are within valid ranges
-     */
-    private ensureValidTemperature(temp: number): number {
-        const MIN_TEMP = 13; // 55°F in Celsius
-        const MAX_TEMP = 46; // 115°F in Celsius
-        
-        if (typeof temp !== 'number' || isNaN(temp)) {
-            this.log.warn(`[API] Invalid temperature value: ${temp}, using default of 21°C`);
-            return 21;
-        }
-        
-        if (temp < MIN_TEMP) {
-            this.log.warn(`[API] Temperature value ${temp}°C below minimum, using ${MIN_TEMP}°C`);
-            return MIN_TEMP;
-        }
-        
-        if (temp > MAX_TEMP) {
-            this.log.warn(`[API] Temperature value ${temp}°C above maximum, using ${MAX_TEMP}°C`);
-            return MAX_TEMP;
-        }
-        
-        return Math.round(temp * 2) / 2; // Round to nearest 0.5 degree
-    }
-
-    /**
-     * Track API request for rate limiting
-     */
-    private trackRequest(): void {
-        const currentMinuteKey = this.getCurrentMinuteKey();
-        
-        // Initialize or increment the request count for this minute
-        requestsPerMinute[currentMinuteKey] = (requestsPerMinute[currentMinuteKey] || 0) + 1;
-        
-        // Clean up old minute entries (older than 5 minutes)
-        this.cleanupOldMinuteEntries();
-    }
-
-    /**
-     * Get the current minute key in format YYYY-MM-DD-HH-MM
-     */
-    private getCurrentMinuteKey(): string {
-        const date = new Date();
-        return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}-${String(date.getUTCHours()).padStart(2, '0')}-${String(date.getUTCMinutes()).padStart(2, '0')}`;
     }
 
     /**
-     * Clean up old minute entries to prevent memory leaks
-     */
-    private cleanupOldMinuteEntries(): void {
-        const currentDate = new Date();
-        
-        // Remove entries older than 5 minutes
-        Object.keys(requestsPerMinute).forEach(minuteKey => {
-            const [year, month, day, hour, minute] = minuteKey.split('-').map(Number);
-            const entryDate = new Date(Date.UTC(year, month - 1, day, hour, minute));
-            
-            if (currentDate.getTime() - entryDate.getTime() > 5 * 60 * 1000) {
-                delete requestsPerMinute[minuteKey];
-            }
-        });
-    }
-
-    /**
-     * Handle rate limit exceeded error
-     */
-    private handleRateLimitExceeded(): void {
-        // Increase the minimum delay between requests
-        minRequestDelay = Math.min(5000, minRequestDelay * 2);
-        
-        // Set rate limit cooldown for 60 seconds
-        rateLimitResetTime = Date.now() + 60000;
-        
-        this.log.warn(
-            `[API] Rate limit hit! Increasing delay to ${minRequestDelay}ms ` +
-            `and pausing requests for 60 seconds.`
-        );
-    }
-
-    /**
-     * Respect rate limits by delaying requests when needed
+     * Standardized error handling for API calls
+     * Logs the failure and returns it as a typed SleepMeApiError for the caller to throw
      */
-    private async respectRateLimit(): Promise<void> {
-        const currentTime = Date.now();
-        
-        // If we hit a rate limit recently, wait until reset time
-        if (rateLimitResetTime > currentTime) {
-            const delay = rateLimitResetTime - currentTime;
-            this.log.debug(`[API] In rate limit cooldown period, waiting ${delay}ms before next request`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            return;
+    private handleApiError(method: string, error: unknown, deviceId?: string): SleepMeApiError {
+        if (error instanceof RequestDroppedError || error instanceof CircuitOpenError) {
+            // Dropped requests and an open circuit are expected, not new failures
+            this.log.debug(`[API] ${method}: ${error.message}`);
+            return error;
         }
         
-        // Check if we're approaching the rate limit for the current minute
-        const currentMinuteKey = this.getCurrentMinuteKey();
-        const currentMinuteRequests = requestsPerMinute[currentMinuteKey] || 0;
-        
-        if (currentMinuteRequests >= this.MAX_REQUESTS_PER_MINUTE) {
-            // Calculate time until the next minute starts
-            const currentDate = new Date();
-            const nextMinute = new Date(currentDate);
-            nextMinute.setUTCMinutes(currentDate.getUTCMinutes() + 1, 0, 0); // First second of next minute
-            const delay = nextMinute.getTime() - currentDate.getTime() + 100; // Add 100ms buffer
-            
-            this.log.debug(
-                `[API] Rate limit approaching (${currentMinuteRequests}/${this.MAX_REQUESTS_PER_MINUTE} ` +
-                `requests in current minute). Waiting ${delay}ms for next minute.`
-            );
+        if (error instanceof TransportError) {
+            const transportError = error;
             
-            await new Promise(resolve => setTimeout(resolve, delay));
-        }
-        
-        // Always add a small delay between requests
-        this.log.debug(`[API] Adding standard delay of ${minRequestDelay}ms between requests`);
-        await new Promise(resolve => setTimeout(resolve, minRequestDelay));
-    }
-
-    /**
-     * Standardized error handling for API calls
-     */
-    private handleApiError(method: string, error: unknown): void {
-        if (axios.isAxiosError(error)) {
-            const axiosError = error as AxiosError;
-            
-            if (axiosError.response) {
+            if (transportError.response) {
                 // Server responded with error status
                 this.log.error(
-                    `[API] Error in ${method}: Status ${axiosError.response.status} - ` +
-                    `${JSON.stringify(axiosError.response.data || {})}`
+                    `[API] Error in ${method}: Status ${transportError.response.status} - ` +
+                    `${JSON.stringify(transportError.response.data || {})}`
                 );
                 
                 // Log complete error details for troubleshooting
                 this.log.debug(`[API] Error details: ${JSON.stringify({
-                    status: axiosError.response.status,
-                    statusText: axiosError.response.statusText,
-                    headers: axiosError.response.headers,
-                    data: axiosError.response.data || {}
+                    status: transportError.response.status,
+                    statusText: transportError.response.statusText,
+                    headers: transportError.response.headers,
+                    data: transportError.response.data || {}
                 })}`);
                 
                 // Handle specific error codes
-                if (axiosError.response.status === 401) {
+                if (transportError.response.status === 401) {
                     this.log.error('[API] Authentication failed. Please check your API token.');
-                } else if (axiosError.response.status === 404) {
+                } else if (transportError.response.status === 404) {
                     this.log.error('[API] Resource not found. Please check if the device ID is correct.');
-                } else if (axiosError.response.status === 429) {
-                    this.handleRateLimitExceeded();
+                } else if (transportError.response.status === 429) {
+                    this.log.warn(`[API] Rate limited by server (${this.rateLimiter.describeBudget()})`);
                 }
                 
-            } else if (axiosError.request) {
+            } else {
                 // Request was made but no response received
                 this.log.error(
                     `[API] Error in ${method}: No response received - ` +
-                    `${axiosError.message}`
+                    `${transportError.message}`
                 );
                 this.log.error('[API] Please check your network connection and API endpoint.');
                 
-                // Log request details for troubleshooting
-                if (axiosError.config) {
-                    this.log.debug(`[API] Request details: ${JSON.stringify({
-                        method: axiosError.config.method,
-                        url: axiosError.config.url,
-                        headers: axiosError.config.headers,
-                        data: axiosError.config.data
-                    })}`);
-                }
-                
-            } else {
-                // Error setting up the request
-                this.log.error(`[API] Error in ${method}: ${axiosError.message}`);
-                
-                // Log any additional information
-                if (axiosError.config) {
-                    this.log.debug(`[API] Request configuration: ${JSON.stringify(axiosError.config)}`);
-                }
+                // Log request details for troubleshooting; headers carry the token and are left out
+                this.log.debug(`[API] Request details: ${JSON.stringify({
+                    method: transportError.request.method,
+                    url: transportError.request.url,
+                    data: transportError.request.data
+                })}`);
             }
             
         } else if (error instanceof Error) {
@@ -753,5 +719,7 @@ export class SleepMeApi {
         } else {
             this.log.error(`[API] Unknown error in ${method}: ${error}`);
         }
+        
+        return toApiError(error, deviceId);
     }
 }
\ No newline at end of file
@@ -0,0 +1,144 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from 'homebridge';
+import { DeviceStatus, parseDeviceStatus } from './device-status.js';
+
+export const STATE_FILE_NAME = 'sleepme-state.json';
+
+/**
+ * Last known status of one device as saved on disk
+ */
+export interface PersistedDeviceStatus {
+  status: DeviceStatus;
+  updatedAt: number; // When the API last confirmed this status (epoch milliseconds)
+}
+
+interface StateFile {
+  version: number;
+  devices: Record<string, PersistedDeviceStatus>;
+}
+
+const STATE_FILE_VERSION = 1;
+
+/**
+ * Saves the last known status of every device under Homebridge's storage
+ * path so accessories can start from real values after a restart.
+ */
+export class DeviceStatePersistence {
+  private readonly filePath: string;
+  private devices: Record<string, PersistedDeviceStatus> = {};
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly log: Logger,
+    storagePath: string,
+    private readonly saveDelay = 10000, // Batch changes before writing (milliseconds)
+  ) {
+    this.filePath = path.join(storagePath, STATE_FILE_NAME);
+    this.load();
+  }
+
+  /**
+   * Last saved status of a device, if any
+   */
+  get(deviceId: string): PersistedDeviceStatus | undefined {
+    return this.devices[deviceId];
+  }
+
+  /**
+   * Remember a fresh status; it is written to disk shortly after
+   */
+  record(deviceId: string, status: DeviceStatus, updatedAt: number): void {
+    this.devices[deviceId] = { status, updatedAt };
+    this.scheduleSave();
+  }
+
+  /**
+   * Forget a device that no longer exists
+   */
+  remove(deviceId: string): void {
+    if (this.devices[deviceId]) {
+      delete this.devices[deviceId];
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Write pending changes right away (used on shutdown)
+   */
+  flush(): void {
+    if (!this.saveTimer) {
+      return;
+    }
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+
+    try {
+      fs.writeFileSync(this.filePath, this.serialize());
+    } catch (error) {
+      this.log.warn(`Could not save device state: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save().catch(error => this.log.warn(`Could not save device state: ${error instanceof Error ? error.message : error}`));
+    }, this.saveDelay);
+  }
+
+  /**
+   * Read the state file, skipping entries that no longer match the device model
+   */
+  private load(): void {
+    let contents: string;
+    try {
+      contents = fs.readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.log.warn(`Could not read saved device state: ${error instanceof Error ? error.message : error}`);
+      }
+      return;
+    }
+
+    try {
+      const file = JSON.parse(contents) as Partial<StateFile>;
+      if (file.version !== STATE_FILE_VERSION || !file.devices || typeof file.devices !== 'object') {
+        this.log.debug(`Ignoring saved device state with unsupported format (version ${file.version})`);
+        return;
+      }
+
+      for (const [deviceId, entry] of Object.entries(file.devices)) {
+        try {
+          if (typeof entry?.updatedAt !== 'number') {
+            throw new Error('missing timestamp');
+          }
+          this.devices[deviceId] = { status: parseDeviceStatus(entry.status).status, updatedAt: entry.updatedAt };
+        } catch (error) {
+          this.log.debug(`Ignoring saved state for device ${deviceId}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+
+      this.log.debug(`Loaded saved state for ${Object.keys(this.devices).length} device(s) from ${this.filePath}`);
+    } catch (error) {
+      this.log.warn(`Saved device state in ${this.filePath} is corrupt and will be replaced: ${error}`);
+    }
+  }
+
+  /**
+   * Write the state file atomically so a crash never leaves it half written
+   */
+  private async save(): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, this.serialize());
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+
+  private serialize(): string {
+    const file: StateFile = { version: STATE_FILE_VERSION, devices: this.devices };
+    return JSON.stringify(file, null, 2);
+  }
+}
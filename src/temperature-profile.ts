@@ -0,0 +1,81 @@
+import { PlatformAccessory } from 'homebridge';
+import { SleepMePlatform } from './platform.js';
+import { DeviceOptions } from './device-config.js';
+import { DeviceCapabilities, allowedRange } from './device-capabilities.js';
+import { HOMEKIT_TEMPERATURE_STEP, Temperature } from './temperature.js';
+
+/**
+ * Props for a characteristic holding a target temperature
+ */
+export interface TemperatureProps {
+  minValue: number;
+  maxValue: number;
+  minStep: number;
+}
+
+/**
+ * What a device's model supports and the target temperatures offered for it,
+ * shared by the accessories that control its temperature
+ */
+export class DeviceTemperatureProfile {
+  private current: DeviceCapabilities; // Refined once the device's status is known
+  private offered: { min: number; max: number }; // Target temperatures offered (Celsius)
+
+  constructor(
+    private readonly platform: SleepMePlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly deviceId: string,
+    private readonly options: DeviceOptions,
+  ) {
+    this.current = this.platform.getDeviceCapabilities(this.deviceId);
+    this.offered = allowedRange(this.current, this.options);
+  }
+
+  get capabilities(): DeviceCapabilities {
+    return this.current;
+  }
+
+  get range(): { min: number; max: number } {
+    return this.offered;
+  }
+
+  /**
+   * The model's range and step, narrowed by the device's configured range
+   */
+  props(): TemperatureProps {
+    return {
+      minValue: this.offered.min,
+      maxValue: this.offered.max,
+      // HomeKit works in Celsius; in Fahrenheit a finer step lets every whole °F through
+      minStep: this.options.unit === 'F' ? HOMEKIT_TEMPERATURE_STEP.F : this.current.temperatureStep.C,
+    };
+  }
+
+  /**
+   * Pick up a model identified from the status payload after the accessory was set up
+   * @returns Whether the model changed, so the characteristic props need to be set again
+   */
+  refresh(): boolean {
+    const capabilities = this.platform.getDeviceCapabilities(this.deviceId);
+    const changed = capabilities.model !== this.current.model;
+    this.current = capabilities;
+    if (!changed) {
+      return false;
+    }
+
+    this.platform.log.info(`Identified ${this.accessory.displayName} as ${capabilities.modelName}`);
+    this.offered = allowedRange(capabilities, this.options);
+    this.accessory.getService(this.platform.Service.AccessoryInformation)?.
+      updateCharacteristic(this.platform.Characteristic.Model, capabilities.modelName);
+    return true;
+  }
+
+  /**
+   * Clamp a Celsius value to a range, by default the one offered for the device,
+   * and round it to what the device holds in its unit
+   */
+  toDevice(celsius: number, min = this.offered.min, max = this.offered.max): Temperature {
+    const unit = this.options.unit;
+    return Temperature.fromCelsius(celsius).clamp(min, max).round(unit, this.current.temperatureStep[unit]);
+  }
+}
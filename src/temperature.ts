@@ -0,0 +1,82 @@
+/**
+ * Unit a device is driven in and shown in
+ */
+export type TemperatureUnit = 'C' | 'F';
+
+/**
+ * Smallest change the device keeps in each unit; in Fahrenheit it only holds whole degrees
+ */
+export const DEVICE_TEMPERATURE_STEP: Record<TemperatureUnit, number> = { C: 0.5, F: 1 };
+
+/**
+ * Step of temperature characteristics in HomeKit, which always works in Celsius.
+ * In Fahrenheit it is fine enough that every whole °F survives the trip through Celsius.
+ */
+export const HOMEKIT_TEMPERATURE_STEP: Record<TemperatureUnit, number> = { C: 0.5, F: 0.1 };
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+/**
+ * A temperature value, stored in Celsius without rounding so converting to the
+ * device's unit and back happens once instead of at every hop
+ */
+export class Temperature {
+  private constructor(readonly celsius: number) {}
+
+  static fromCelsius(celsius: number): Temperature {
+    return new Temperature(celsius);
+  }
+
+  static fromFahrenheit(fahrenheit: number): Temperature {
+    return new Temperature((fahrenheit - 32) * 5 / 9);
+  }
+
+  static from(value: number, unit: TemperatureUnit): Temperature {
+    return unit === 'F' ? Temperature.fromFahrenheit(value) : Temperature.fromCelsius(value);
+  }
+
+  get fahrenheit(): number {
+    return this.celsius * 9 / 5 + 32;
+  }
+
+  /**
+   * Value in a unit, unrounded
+   */
+  in(unit: TemperatureUnit): number {
+    return unit === 'F' ? this.fahrenheit : this.celsius;
+  }
+
+  /**
+   * Keep within a range given in Celsius
+   */
+  clamp(minCelsius: number, maxCelsius: number): Temperature {
+    return new Temperature(Math.min(maxCelsius, Math.max(minCelsius, this.celsius)));
+  }
+
+  /**
+   * Round to what the device holds in a unit: whole °F, or half °C unless the device's step differs
+   */
+  round(unit: TemperatureUnit, step = DEVICE_TEMPERATURE_STEP[unit]): Temperature {
+    return Temperature.from(roundTo(this.in(unit), step), unit);
+  }
+
+  /**
+   * The value to hand to HomeKit when the device is shown in a unit
+   */
+  toHomeKit(unit: TemperatureUnit): number {
+    // Trim float noise such as 20.000000000000004 as well
+    return Number(roundTo(this.celsius, HOMEKIT_TEMPERATURE_STEP[unit]).toFixed(1));
+  }
+
+  /**
+   * Whether two temperatures are the same setting on a device driven in a unit
+   */
+  equals(other: Temperature, unit: TemperatureUnit): boolean {
+    const step = DEVICE_TEMPERATURE_STEP[unit];
+    return roundTo(this.in(unit), step) === roundTo(other.in(unit), step);
+  }
+
+  toString(unit: TemperatureUnit = 'C'): string {
+    return `${roundTo(this.in(unit), DEVICE_TEMPERATURE_STEP[unit])}°${unit}`;
+  }
+}
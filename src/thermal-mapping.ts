@@ -0,0 +1,97 @@
+import { DeviceState } from './device-state-store.js';
+
+/**
+ * Mode the user picked in HomeKit; the device itself only knows on/off and one set point
+ */
+export type ThermalMode = 'off' | 'heat' | 'cool' | 'auto';
+
+/**
+ * What the device is doing right now
+ */
+export type ThermalActivity = 'off' | 'idle' | 'heating' | 'cooling';
+
+/**
+ * Lower and upper bound of the comfort band (Celsius)
+ */
+export interface ThermalThresholds {
+  heating: number; // Heat up to at least this
+  cooling: number; // Cool down to at most this
+}
+
+const IDLE_BAND = 0.5; // Water within this many degrees of the set point counts as idle
+const MODE_NUDGE = 2; // Degrees past the water temperature a single-set-point HEAT/COOL aims for
+
+/**
+ * Work out what the device is doing from its thermal_control_status and temperatures
+ */
+export function thermalActivity(state: DeviceState): ThermalActivity {
+  if (!state.active) {
+    return 'off';
+  }
+  if (state.targetTemperature > state.currentTemperature + IDLE_BAND) {
+    return 'heating';
+  }
+  if (state.targetTemperature < state.currentTemperature - IDLE_BAND) {
+    return 'cooling';
+  }
+  return 'idle';
+}
+
+/**
+ * Mode to show for a device state; the device cannot tell heat, cool and auto
+ * apart, so the mode last chosen in HomeKit is kept while the device runs
+ */
+export function thermalMode(state: DeviceState, previous: ThermalMode = 'auto'): ThermalMode {
+  if (!state.active) {
+    return 'off';
+  }
+  return previous === 'off' ? 'auto' : previous;
+}
+
+/**
+ * Set point for a mode with a heating/cooling band (HeaterCooler)
+ * Auto keeps the water where it is if that is inside the band.
+ */
+export function setpointForThresholds(mode: ThermalMode, currentTemperature: number, thresholds: ThermalThresholds): number {
+  switch (mode) {
+    case 'heat':
+      return thresholds.heating;
+    case 'cool':
+      return thresholds.cooling;
+    default:
+      return Math.min(thresholds.cooling, Math.max(thresholds.heating, currentTemperature));
+  }
+}
+
+/**
+ * Set point for a mode with a single target temperature (Thermostat)
+ * HEAT and COOL move the target past the water temperature so the device actually heats or cools.
+ */
+export function setpointForTarget(mode: ThermalMode, currentTemperature: number, targetTemperature: number): number {
+  switch (mode) {
+    case 'heat':
+      return Math.max(currentTemperature + MODE_NUDGE, targetTemperature);
+    case 'cool':
+      return Math.min(currentTemperature - MODE_NUDGE, targetTemperature);
+    default:
+      return targetTemperature;
+  }
+}
+
+/**
+ * Fit a comfort band around the device's set point after it was changed elsewhere
+ * (the SleepMe app, a schedule), keeping the band the user chose where possible
+ */
+export function thresholdsForSetpoint(mode: ThermalMode, setpoint: number, previous: ThermalThresholds): ThermalThresholds {
+  switch (mode) {
+    case 'heat':
+      return { heating: setpoint, cooling: Math.max(previous.cooling, setpoint) };
+    case 'cool':
+      return { heating: Math.min(previous.heating, setpoint), cooling: setpoint };
+    default:
+      return {
+        heating: Math.min(previous.heating, setpoint),
+        cooling: Math.max(previous.cooling, setpoint),
+      };
+  }
+}
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import os from 'os';
+import { exec, execSync } from 'child_process';
+import { promisify } from 'util';
+import { Logger } from 'homebridge';
+
+const execAsync = promisify(exec);
+
+/**
+ * Where an account's API token comes from, as written in config.json
+ * The first one set wins, in the order command, file, environment variable, plain token.
+ */
+export interface TokenSourceConfig {
+  apiToken?: string; // Token stored in config.json
+  apiTokenEnv?: string; // Name of an environment variable holding the token
+  apiTokenFile?: string; // Path of a file holding the token
+  apiTokenCommand?: string; // Shell command that prints the token
+}
+
+/**
+ * Supplies the API token and re-reads it when the API rejects it
+ */
+export interface TokenSource {
+  readonly description: string; // For logs; never the token itself
+  getToken(): string;
+  /**
+   * Re-read the token, e.g. after a 401
+   * @returns Whether a different token was found
+   */
+  refresh(): Promise<boolean>;
+}
+
+/**
+ * A token that never changes, e.g. from config.json
+ */
+export class StaticTokenSource implements TokenSource {
+  readonly description = 'config.json';
+
+  constructor(private readonly token: string) {}
+
+  getToken(): string {
+    return this.token;
+  }
+
+  async refresh(): Promise<boolean> {
+    return false;
+  }
+}
+
+/**
+ * A token read from outside config.json, read at startup and again when rejected
+ */
+class ReloadingTokenSource implements TokenSource {
+  private token = '';
+  private lastRefresh = 0;
+  private refreshing?: Promise<boolean>;
+  private readonly MIN_REFRESH_INTERVAL = 30000; // Don't re-read more often than this (milliseconds)
+
+  constructor(
+    readonly description: string,
+    private readonly log: Logger,
+    private readonly readSync: () => string,
+    private readonly read: () => Promise<string>,
+  ) {
+    try {
+      this.token = readSync().trim();
+      if (this.token === '') {
+        this.log.error(`API token from ${description} is empty`);
+      }
+    } catch (error) {
+      this.log.error(`Could not read API token from ${description}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  getToken(): string {
+    return this.token;
+  }
+
+  refresh(): Promise<boolean> {
+    // Concurrent rejections share one re-read
+    if (this.refreshing) {
+      return this.refreshing;
+    }
+    if (Date.now() - this.lastRefresh < this.MIN_REFRESH_INTERVAL) {
+      return Promise.resolve(false);
+    }
+    this.lastRefresh = Date.now();
+
+    this.refreshing = this.read()
+      .then(value => {
+        const token = value.trim();
+        if (token === '' || token === this.token) {
+          this.log.debug(`API token from ${this.description} has not changed`);
+          return false;
+        }
+        this.token = token;
+        this.log.info(`Loaded a new API token from ${this.description}`);
+        return true;
+      })
+      .catch(error => {
+        this.log.error(`Could not re-read API token from ${this.description}: ${error instanceof Error ? error.message : error}`);
+        return false;
+      })
+      .finally(() => {
+        this.refreshing = undefined;
+      });
+    return this.refreshing;
+  }
+}
+
+const COMMAND_TIMEOUT = 10000; // milliseconds
+
+/**
+ * Build the token source an account is configured with
+ * @returns undefined when no token source is configured
+ */
+export function createTokenSource(config: TokenSourceConfig, log: Logger): TokenSource | undefined {
+  if (config.apiTokenCommand?.trim()) {
+    const command = config.apiTokenCommand.trim();
+    return new ReloadingTokenSource(
+      'apiTokenCommand',
+      log,
+      () => execSync(command, { encoding: 'utf8', timeout: COMMAND_TIMEOUT, stdio: ['ignore', 'pipe', 'pipe'] }),
+      async () => (await execAsync(command, { encoding: 'utf8', timeout: COMMAND_TIMEOUT })).stdout,
+    );
+  }
+
+  if (config.apiTokenFile?.trim()) {
+    const filePath = config.apiTokenFile.trim().replace(/^~(?=$|\/)/, os.homedir());
+    return new ReloadingTokenSource(
+      `file ${filePath}`,
+      log,
+      () => fs.readFileSync(filePath, 'utf8'),
+      () => fs.promises.readFile(filePath, 'utf8'),
+    );
+  }
+
+  if (config.apiTokenEnv?.trim()) {
+    const name = config.apiTokenEnv.trim();
+    const readEnv = () => {
+      const value = process.env[name];
+      if (value === undefined) {
+        throw new Error(`environment variable ${name} is not set`);
+      }
+      return value;
+    };
+    return new ReloadingTokenSource(`environment variable ${name}`, log, readEnv, async () => readEnv());
+  }
+
+  if (config.apiToken?.trim()) {
+    return new StaticTokenSource(config.apiToken.trim());
+  }
+
+  return undefined;
+}
+
+/**
+ * Token source keys set in a config entry
+ */
+export function configuredTokenSources(config: TokenSourceConfig): (keyof TokenSourceConfig)[] {
+  const keys: (keyof TokenSourceConfig)[] = ['apiTokenCommand', 'apiTokenFile', 'apiTokenEnv', 'apiToken'];
+  return keys.filter(key => typeof config[key] === 'string' && config[key]!.trim() !== '');
+}
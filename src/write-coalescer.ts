@@ -0,0 +1,120 @@
+import { Logger } from 'homebridge';
+import { SleepMeApi } from './sleepme-api.js';
+import { MaxMode } from './max-mode.js';
+import { RequestPriority } from './request-queue.js';
+
+/**
+ * A change requested from HomeKit that has not been sent yet
+ */
+export interface PendingDeviceWrite {
+  temperature?: number; // Target temperature in Celsius
+  maxMode?: MaxMode; // Full power instead of a target temperature; turns the device on
+  power?: 'on' | 'off';
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * Debounces writes to one device. Changes arriving within the debounce window
+ * (e.g. while dragging the Home app slider) are merged and sent as a single
+ * PATCH carrying the latest values; every caller resolves with its outcome.
+ */
+export class DeviceWriteCoalescer {
+  private pending: PendingDeviceWrite = {};
+  private waiters: Waiter[] = [];
+  private timer?: NodeJS.Timeout;
+  private lastWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly apiService: SleepMeApi,
+    private readonly deviceId: string,
+    private readonly log: Logger,
+    private readonly delay = 1000, // Debounce window (milliseconds)
+  ) {}
+
+  /**
+   * Merge a change into the pending write and wait until it has been sent
+   */
+  write(change: PendingDeviceWrite): Promise<void> {
+    // A temperature and a max mode replace each other
+    if (change.temperature !== undefined) {
+      this.pending.temperature = change.temperature;
+      delete this.pending.maxMode;
+    }
+    if (change.maxMode !== undefined) {
+      this.pending.maxMode = change.maxMode;
+      this.pending.power = 'on';
+      delete this.pending.temperature;
+    }
+    if (change.power !== undefined) {
+      this.pending.power = change.power;
+      if (change.power === 'off') {
+        delete this.pending.maxMode;
+      }
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.flush(), this.delay);
+
+    return new Promise<void>((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Send any pending change immediately and stop the debounce timer
+   */
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+      this.flush();
+    }
+  }
+
+  /**
+   * Send the merged change and settle every caller waiting on it
+   */
+  private flush(): void {
+    this.timer = undefined;
+    const change = this.pending;
+    const waiters = this.waiters;
+    this.pending = {};
+    this.waiters = [];
+
+    if (waiters.length > 1) {
+      this.log.debug(`Coalesced ${waiters.length} changes for device ${this.deviceId} into one update: ${JSON.stringify(change)}`);
+    }
+
+    // Keep writes to the same device in order
+    this.lastWrite = this.lastWrite
+      .then(() => this.send(change))
+      .then(() => {
+        waiters.forEach(waiter => waiter.resolve());
+      })
+      .catch(error => {
+        waiters.forEach(waiter => waiter.reject(error));
+      });
+  }
+
+  /**
+   * Translate a merged change into a single API call
+   */
+  private async send(change: PendingDeviceWrite): Promise<void> {
+    if (change.power === 'off') {
+      // A temperature set in the same window is stored for the next time the device is turned on
+      await this.apiService.turnDeviceOff(this.deviceId, RequestPriority.INTERACTIVE, change.temperature);
+    } else if (change.maxMode !== undefined) {
+      await this.apiService.setMaxMode(this.deviceId, change.maxMode);
+    } else if (change.power === 'on') {
+      await this.apiService.turnDeviceOn(this.deviceId, change.temperature);
+    } else if (change.temperature !== undefined) {
+      await this.apiService.setTemperature(this.deviceId, change.temperature);
+    }
+  }
+}
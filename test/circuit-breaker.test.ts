@@ -0,0 +1,112 @@
+import { CircuitBreaker, CircuitOpenError } from '../src/circuit-breaker.js';
+import { mockLogger } from './mock-logger.js';
+
+class OutageError extends Error {}
+
+const fail = async () => {
+  throw new OutageError('unreachable');
+};
+const succeed = async () => 'ok';
+
+describe('CircuitBreaker', () => {
+  let now: jest.SpyInstance<number, []>;
+  let breaker: CircuitBreaker;
+  let states: string[];
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    breaker = new CircuitBreaker(mockLogger(), error => error instanceof OutageError, {
+      failureThreshold: 3,
+      probeInterval: 60000,
+    });
+    states = [];
+    breaker.onStateChange(state => states.push(state));
+  });
+
+  afterEach(() => {
+    now.mockRestore();
+  });
+
+  async function trip(): Promise<void> {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toBeInstanceOf(OutageError);
+    }
+  }
+
+  it('opens after the configured number of consecutive failures', async () => {
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(OutageError);
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(OutageError);
+    expect(breaker.isClosed()).toBe(true);
+
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(OutageError);
+    expect(breaker.getState()).toBe('open');
+    expect(states).toEqual(['open']);
+  });
+
+  it('counts only consecutive failures', async () => {
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(OutageError);
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(OutageError);
+    await breaker.execute(succeed);
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(OutageError);
+    expect(breaker.isClosed()).toBe(true);
+  });
+
+  it('treats an error the server answered with as a sign it is reachable', async () => {
+    const refused = async () => {
+      throw new Error('bad request');
+    };
+    for (let i = 0; i < 5; i++) {
+      await expect(breaker.execute(refused)).rejects.toThrow('bad request');
+    }
+    expect(breaker.isClosed()).toBe(true);
+  });
+
+  it('fails fast while open without calling the API', async () => {
+    await trip();
+    const request = jest.fn(succeed);
+
+    now.mockReturnValue(59999);
+    const error = await breaker.execute(request).catch(e => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect((error as CircuitOpenError).retryAt).toBe(60000);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('closes again once a probe succeeds', async () => {
+    await trip();
+
+    now.mockReturnValue(60000);
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    expect(breaker.isClosed()).toBe(true);
+    expect(states).toEqual(['open', 'closed']);
+  });
+
+  it('lets only one probe through at a time', async () => {
+    await trip();
+
+    now.mockReturnValue(60000);
+    let release!: () => void;
+    const probe = breaker.execute(() => new Promise<string>(resolve => {
+      release = () => resolve('ok');
+    }));
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    release();
+    await expect(probe).resolves.toBe('ok');
+  });
+
+  it('waits another probe interval after a failed probe', async () => {
+    await trip();
+
+    now.mockReturnValue(60000);
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(OutageError);
+    expect(breaker.getState()).toBe('open');
+    // Probe transitions are not reported to listeners
+    expect(states).toEqual(['open']);
+
+    now.mockReturnValue(119999);
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+    now.mockReturnValue(120000);
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+  });
+});
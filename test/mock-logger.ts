@@ -0,0 +1,16 @@
+import { Logger } from 'homebridge';
+
+/**
+ * Logger that records calls instead of printing them
+ */
+export function mockLogger(): jest.Mocked<Logger> {
+  return {
+    prefix: 'test',
+    info: jest.fn(),
+    success: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    log: jest.fn(),
+  } as unknown as jest.Mocked<Logger>;
+}
@@ -0,0 +1,100 @@
+import { RateLimiter } from '../src/rate-limiter.js';
+import { mockLogger } from './mock-logger.js';
+
+const OPTIONS = {
+  requestsPerMinute: 6, // One token every 10 seconds
+  minRequestDelay: 100,
+  maxRequestDelay: 800,
+  quietPeriod: 60000,
+};
+
+const START = 1_000_000;
+
+let tokenCount = 0;
+
+/**
+ * Limiters are shared per API token, so each test gets a token of its own
+ */
+function newLimiter(): RateLimiter {
+  return RateLimiter.forToken(`token-${tokenCount++}`, mockLogger(), OPTIONS);
+}
+
+/**
+ * Resolve with how long after the start an acquire went through
+ */
+async function acquiredAt(limiter: RateLimiter): Promise<number> {
+  await limiter.acquire();
+  return Date.now() - START;
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('is shared by everything using the same API token', () => {
+    const log = mockLogger();
+    expect(RateLimiter.forToken('shared', log)).toBe(RateLimiter.forToken('shared', log));
+    expect(RateLimiter.forToken('shared', log)).not.toBe(RateLimiter.forToken('other', log));
+  });
+
+  it('spends the full bucket spaced by the minimum delay, then waits for a refill', async () => {
+    const limiter = newLimiter();
+    const times = Promise.all(Array.from({ length: 7 }, () => acquiredAt(limiter)));
+
+    await jest.advanceTimersByTimeAsync(20000);
+    const acquired = await times;
+    expect(acquired.slice(0, 6)).toEqual([0, 100, 200, 300, 400, 500]);
+    // The spacing refilled a fraction of a token, so the 7th only waits for the rest of one
+    expect(acquired[6] - acquired[5]).toBeGreaterThanOrEqual(9400);
+    expect(acquired[6] - acquired[5]).toBeLessThan(10000);
+  });
+
+  it('never assumes more budget than the server reports', async () => {
+    const limiter = newLimiter();
+    limiter.recordResponse({ 'x-ratelimit-remaining': '1' });
+    expect(limiter.getBudget().available).toBe(1);
+    expect(limiter.getBudget().serverRemaining).toBe(1);
+  });
+
+  it('pauses until the server reset when no requests remain', async () => {
+    const limiter = newLimiter();
+    limiter.recordResponse({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '30' });
+    expect(limiter.getBudget().cooldownRemaining).toBe(30000);
+
+    const time = acquiredAt(limiter);
+    await jest.advanceTimersByTimeAsync(40000);
+    expect(await time).toBeGreaterThanOrEqual(30000);
+  });
+
+  it('backs off after a 429 and honours Retry-After', async () => {
+    const limiter = newLimiter();
+    limiter.recordRateLimited({ 'retry-after': '5' });
+
+    const budget = limiter.getBudget();
+    expect(budget.requestDelay).toBe(200);
+    expect(budget.cooldownRemaining).toBe(5000);
+    expect(budget.available).toBe(0);
+
+    const time = acquiredAt(limiter);
+    await jest.advanceTimersByTimeAsync(20000);
+    expect(await time).toBeGreaterThanOrEqual(5000);
+  });
+
+  it('caps the penalty delay and halves it after each quiet period', () => {
+    const limiter = newLimiter();
+    for (let i = 0; i < 5; i++) {
+      limiter.recordRateLimited({ 'retry-after': '0' });
+    }
+    expect(limiter.getBudget().requestDelay).toBe(800);
+
+    jest.setSystemTime(START + 60000);
+    expect(limiter.getBudget().requestDelay).toBe(400);
+    jest.setSystemTime(START + 180000);
+    expect(limiter.getBudget().requestDelay).toBe(100);
+  });
+});
@@ -0,0 +1,117 @@
+import { RequestPriority, RequestQueue } from '../src/request-queue.js';
+import { RequestDroppedError } from '../src/api-errors.js';
+import { mockLogger } from './mock-logger.js';
+
+/**
+ * A request that only finishes when the test says so
+ */
+function deferred<T>(value: T) {
+  let release!: () => void;
+  const requestFn = () => new Promise<T>(resolve => {
+    release = () => resolve(value);
+  });
+  return { requestFn, release: () => release() };
+}
+
+describe('RequestQueue', () => {
+  let queue: RequestQueue;
+
+  beforeEach(() => {
+    queue = new RequestQueue(mockLogger(), requestFn => requestFn());
+  });
+
+  it('runs the most urgent request first and FIFO within a priority', async () => {
+    const blocker = deferred('blocker');
+    const order: string[] = [];
+    const track = (name: string) => async () => {
+      order.push(name);
+      return name;
+    };
+
+    const first = queue.enqueue(blocker.requestFn, { priority: RequestPriority.POLL });
+    const all = Promise.all([
+      queue.enqueue(track('poll'), { priority: RequestPriority.POLL }),
+      queue.enqueue(track('scheduled'), { priority: RequestPriority.SCHEDULED }),
+      queue.enqueue(track('interactive 1'), { priority: RequestPriority.INTERACTIVE }),
+      queue.enqueue(track('interactive 2'), { priority: RequestPriority.INTERACTIVE }),
+    ]);
+
+    blocker.release();
+    await first;
+    await all;
+    expect(order).toEqual(['interactive 1', 'interactive 2', 'scheduled', 'poll']);
+  });
+
+  it('shares the result of an equivalent queued request', async () => {
+    const blocker = deferred('blocker');
+    queue.enqueue(blocker.requestFn);
+
+    const status = jest.fn(async () => 'status');
+    const a = queue.enqueue(status, { key: 'status:1', merge: true });
+    const b = queue.enqueue(status, { key: 'status:1', merge: true });
+    expect(b).toBe(a);
+    expect(queue.size).toBe(1);
+
+    blocker.release();
+    await expect(a).resolves.toBe('status');
+    expect(status).toHaveBeenCalledTimes(1);
+  });
+
+  it('promotes a merged request to the more urgent priority', async () => {
+    const blocker = deferred('blocker');
+    queue.enqueue(blocker.requestFn);
+
+    const order: string[] = [];
+    const scheduled = queue.enqueue(async () => order.push('scheduled'), { priority: RequestPriority.SCHEDULED });
+    const poll = queue.enqueue(async () => order.push('status'), { key: 'status:1', merge: true });
+    queue.enqueue(async () => order.push('status'), {
+      key: 'status:1',
+      merge: true,
+      priority: RequestPriority.INTERACTIVE,
+    });
+
+    blocker.release();
+    await Promise.all([scheduled, poll]);
+    expect(order).toEqual(['status', 'scheduled']);
+  });
+
+  it('drops a request that went stale while waiting', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const blocker = deferred('blocker');
+    queue.enqueue(blocker.requestFn);
+
+    const stale = jest.fn(async () => 'stale');
+    const dropped = queue.enqueue(stale, { key: 'status:1', staleAfter: 1000 });
+
+    now.mockReturnValue(2000);
+    blocker.release();
+    await expect(dropped).rejects.toBeInstanceOf(RequestDroppedError);
+    expect(stale).not.toHaveBeenCalled();
+    now.mockRestore();
+  });
+
+  it('keeps a merged request that a caller without a stale limit is waiting on', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const blocker = deferred('blocker');
+    queue.enqueue(blocker.requestFn);
+
+    const status = jest.fn(async () => 'status');
+    const poll = queue.enqueue(status, { key: 'status:1', merge: true, staleAfter: 1000 });
+    queue.enqueue(status, { key: 'status:1', merge: true });
+
+    now.mockReturnValue(2000);
+    blocker.release();
+    await expect(poll).resolves.toBe('status');
+    now.mockRestore();
+  });
+
+  it('keeps going after a request fails', async () => {
+    const failed = queue.enqueue(async () => {
+      throw new Error('boom');
+    });
+    const next = queue.enqueue(async () => 'next');
+
+    await expect(failed).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('next');
+  });
+});
@@ -0,0 +1,38 @@
+import { Temperature } from '../src/temperature.js';
+
+describe('Temperature', () => {
+  it('rounds to whole degrees in Fahrenheit', () => {
+    expect(Temperature.fromCelsius(20).round('F').fahrenheit).toBeCloseTo(68);
+    expect(Temperature.fromCelsius(20.3).round('F').fahrenheit).toBeCloseTo(69);
+    expect(Temperature.fromCelsius(20.2).round('F').fahrenheit).toBeCloseTo(68);
+  });
+
+  it('rounds to half degrees in Celsius by default', () => {
+    expect(Temperature.fromCelsius(20.2).round('C').celsius).toBe(20);
+    expect(Temperature.fromCelsius(20.3).round('C').celsius).toBe(20.5);
+  });
+
+  it('keeps every whole °F through the trip to HomeKit and back', () => {
+    for (let fahrenheit = 55; fahrenheit <= 115; fahrenheit++) {
+      const homeKit = Temperature.fromFahrenheit(fahrenheit).toHomeKit('F');
+      expect(Temperature.fromCelsius(homeKit).round('F').fahrenheit).toBeCloseTo(fahrenheit);
+    }
+  });
+
+  it('clamps to a Celsius range before rounding', () => {
+    expect(Temperature.fromCelsius(50).clamp(13, 46).round('C').celsius).toBe(46);
+    expect(Temperature.fromCelsius(5).clamp(13, 46).round('F').fahrenheit).toBeCloseTo(55);
+  });
+
+  it('treats values that round to the same device setting as equal', () => {
+    const a = Temperature.fromFahrenheit(68.2);
+    const b = Temperature.fromFahrenheit(67.8);
+    expect(a.equals(b, 'F')).toBe(true);
+    expect(a.equals(Temperature.fromFahrenheit(69), 'F')).toBe(false);
+  });
+
+  it('formats in the device unit', () => {
+    expect(Temperature.fromCelsius(20).toString('F')).toBe('68°F');
+    expect(Temperature.fromCelsius(20.3).toString()).toBe('20.5°C');
+  });
+});
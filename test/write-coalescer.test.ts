@@ -0,0 +1,100 @@
+import { DeviceWriteCoalescer } from '../src/write-coalescer.js';
+import { RequestPriority } from '../src/request-queue.js';
+import { SleepMeApi } from '../src/sleepme-api.js';
+import { mockLogger } from './mock-logger.js';
+
+function mockApi() {
+  return {
+    turnDeviceOn: jest.fn().mockResolvedValue(true),
+    turnDeviceOff: jest.fn().mockResolvedValue(true),
+    setTemperature: jest.fn().mockResolvedValue(true),
+    setMaxMode: jest.fn().mockResolvedValue(true),
+  };
+}
+
+describe('DeviceWriteCoalescer', () => {
+  let api: ReturnType<typeof mockApi>;
+  let coalescer: DeviceWriteCoalescer;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    api = mockApi();
+    coalescer = new DeviceWriteCoalescer(api as unknown as SleepMeApi, 'device-1', mockLogger(), 1000);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sends changes within the debounce window as one update with the latest values', async () => {
+    const writes = Promise.all([
+      coalescer.write({ temperature: 20 }),
+      coalescer.write({ temperature: 21 }),
+      coalescer.write({ power: 'on' }),
+    ]);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(api.turnDeviceOn).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    await writes;
+    expect(api.turnDeviceOn).toHaveBeenCalledTimes(1);
+    expect(api.turnDeviceOn).toHaveBeenCalledWith('device-1', 21);
+    expect(api.setTemperature).not.toHaveBeenCalled();
+  });
+
+  it('sends a lone temperature change as a set point', async () => {
+    const write = coalescer.write({ temperature: 19.5 });
+    await jest.advanceTimersByTimeAsync(1000);
+    await write;
+    expect(api.setTemperature).toHaveBeenCalledWith('device-1', 19.5);
+  });
+
+  it('keeps a set point sent together with power off', async () => {
+    const writes = Promise.all([
+      coalescer.write({ temperature: 18 }),
+      coalescer.write({ power: 'off' }),
+    ]);
+    await jest.advanceTimersByTimeAsync(1000);
+    await writes;
+    expect(api.turnDeviceOff).toHaveBeenCalledWith('device-1', RequestPriority.INTERACTIVE, 18);
+  });
+
+  it('lets a temperature and a max mode replace each other', async () => {
+    let writes = Promise.all([
+      coalescer.write({ temperature: 18 }),
+      coalescer.write({ maxMode: 'maxCool' }),
+    ]);
+    await jest.advanceTimersByTimeAsync(1000);
+    await writes;
+    expect(api.setMaxMode).toHaveBeenCalledWith('device-1', 'maxCool');
+
+    writes = Promise.all([
+      coalescer.write({ maxMode: 'maxHeat' }),
+      coalescer.write({ temperature: 30 }),
+    ]);
+    await jest.advanceTimersByTimeAsync(1000);
+    await writes;
+    expect(api.setMaxMode).toHaveBeenCalledTimes(1);
+    expect(api.turnDeviceOn).toHaveBeenCalledWith('device-1', 30);
+  });
+
+  it('rejects every caller merged into a failed write', async () => {
+    api.setTemperature.mockRejectedValueOnce(new Error('offline'));
+    const first = coalescer.write({ temperature: 20 });
+    const second = coalescer.write({ temperature: 21 });
+    const outcomes = Promise.allSettled([first, second]);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    const [a, b] = await outcomes;
+    expect(a).toEqual({ status: 'rejected', reason: new Error('offline') });
+    expect(b).toEqual({ status: 'rejected', reason: new Error('offline') });
+  });
+
+  it('sends a pending change right away when disposed', async () => {
+    const write = coalescer.write({ temperature: 22 });
+    coalescer.dispose();
+    await write;
+    expect(api.setTemperature).toHaveBeenCalledWith('device-1', 22);
+  });
+});